@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { AppConfig, loadAppConfig } from './app-config';
+
+/**
+ * Module providing the validated runtime configuration.
+ * It is global, so every module can inject the configuration without importing it.
+ */
+@Global()
+@Module({
+  providers: [{ provide: AppConfig, useFactory: () => loadAppConfig() }],
+  exports: [AppConfig],
+})
+export class AppConfigModule {}
@@ -0,0 +1,272 @@
+import { Transform, plainToInstance } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidationError,
+  validateSync,
+} from 'class-validator';
+import * as fs from 'fs';
+import { parse } from 'yaml';
+import { RemovedDefinitionMode } from 'src/configuration/entities/definition-sync-report.entity';
+
+// converts `true`/`false` strings of environment variables to booleans, ignoring case,
+// other strings are kept and rejected by the validation
+const toBoolean = () =>
+  Transform(({ obj, key }) => {
+    const value = obj[key];
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const normalized = value.toLowerCase();
+    return normalized === 'true' || normalized === 'false'
+      ? normalized === 'true'
+      : value;
+  });
+
+/**
+ * Runtime configuration of the application.
+ * Loaded from the optional JSON or YAML file at `APP_CONFIG_FILE` (keys as the property names below)
+ * and from environment variables, which take precedence over the file.
+ */
+export class AppConfig {
+  // port the HTTP server listens on
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  port: number = 8080;
+
+  // host of the Dapr sidecar
+  @IsString()
+  @IsNotEmpty()
+  daprHost: string = '127.0.0.1';
+  // HTTP port of the Dapr sidecar
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  daprHttpPort: number = 3500;
+  // pub/sub component configurations are published to
+  @IsString()
+  @IsNotEmpty()
+  configPubsubName: string = 'pubsub';
+  // topic configurations are published to, `{service}` is replaced by the service name
+  @IsString()
+  @Matches(/\{service\}/, { message: 'configTopic must contain {service}' })
+  configTopic: string = 'config/{service}';
+  // pub/sub component heartbeats are received from
+  @IsString()
+  @IsNotEmpty()
+  heartbeatPubsubName: string = 'experiment-config-pubsub';
+  // topic heartbeats are received from
+  @IsString()
+  @IsNotEmpty()
+  heartbeatTopic: string = 'heartbeat';
+  // method of the service sidecars returning the variable definitions
+  @IsString()
+  @IsNotEmpty()
+  definitionsPath: string = '_ecs/defined-variables';
+
+  // maximum number of attempts to publish a configuration before it is dead-lettered
+  @IsInt()
+  @Min(1)
+  outboxMaxAttempts: number = 10;
+  // backoff before the first publish retry, doubled for each further retry
+  @IsInt()
+  @Min(0)
+  outboxBackoffMs: number = 1000;
+  // upper limit of the backoff between two publish attempts
+  @IsInt()
+  @Min(0)
+  outboxMaxBackoffMs: number = 60000;
+  // interval in which due publishes are dispatched
+  @IsInt()
+  @Min(1)
+  outboxDispatchIntervalMs: number = 1000;
+  // time after which a publish that did not complete counts as a failed attempt
+  @IsInt()
+  @Min(1)
+  outboxPublishTimeoutMs: number = 10000;
+  // path of the JSON file the outbox is stored in, kept in memory only if not set
+  @IsOptional()
+  @IsString()
+  outboxStorePath?: string;
+
+  // storage backend for service configurations
+  @IsIn(['memory', 'file'])
+  configurationStore: 'memory' | 'file' = 'memory';
+  // path of the JSON file used by the file store
+  @IsString()
+  @IsNotEmpty()
+  configurationStorePath: string = 'data/configuration.json';
+  // path of the seed file applied to newly registered services
+  @IsOptional()
+  @IsString()
+  configurationSeedFile?: string;
+
+  // age of the last heartbeat after which a replica is stale
+  @IsInt()
+  @Min(1)
+  heartbeatTtlMs: number = 30000;
+  // age of the last heartbeat after which a replica is dead, three times the TTL if not set
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  replicaDeadAfterMs?: number;
+  // interval in which the liveness of all replicas is updated
+  @IsInt()
+  @Min(1)
+  replicaReaperIntervalMs: number = 5000;
+  // whether a tombstone is kept for removed replicas
+  @toBoolean()
+  @IsBoolean()
+  replicaTombstones: boolean = false;
+  // maximum number of tombstones kept per service, the oldest ones are dropped first
+  @IsInt()
+  @Min(1)
+  replicaMaxTombstones: number = 100;
+
+  // maximum number of registration attempts of a service
+  @IsInt()
+  @Min(1)
+  registrationMaxAttempts: number = 5;
+  // backoff before the first registration retry
+  @IsInt()
+  @Min(0)
+  registrationBackoffMs: number = 1000;
+  // upper limit of the backoff between two registration attempts
+  @IsInt()
+  @Min(0)
+  registrationMaxBackoffMs: number = 30000;
+
+  // interval of the periodic definition sync, 0 disables it
+  @IsInt()
+  @Min(0)
+  definitionSyncIntervalMs: number = 0;
+  // handling of vanished variables during the periodic definition sync
+  @IsIn(['flag', 'remove'])
+  definitionSyncRemovedMode: RemovedDefinitionMode = 'flag';
+
+  // interval in which the values of running variable generators are generated
+  @IsInt()
+  @Min(1)
+  generatorTickIntervalMs: number = 1000;
+
+  // whether authentication and authorization are enforced
+  @toBoolean()
+  @IsBoolean()
+  authEnabled: boolean = false;
+  // static API keys as `subject:key:role` entries
+  @IsOptional()
+  @IsString()
+  authApiKeys?: string;
+  // HMAC secret verifying JWT bearer tokens
+  @IsOptional()
+  @IsString()
+  authJwtSecret?: string;
+  // path of the public key verifying JWT bearer tokens
+  @IsOptional()
+  @IsString()
+  authJwtPublicKeyFile?: string;
+  // claim of a JWT containing the roles
+  @IsString()
+  @IsNotEmpty()
+  authJwtRolesClaim: string = 'roles';
+}
+
+// environment variable of every configuration property
+const ENVIRONMENT_VARIABLES: Record<keyof AppConfig, string> = {
+  port: 'PORT',
+  daprHost: 'DAPR_HOST',
+  daprHttpPort: 'DAPR_HTTP_PORT',
+  configPubsubName: 'CONFIG_PUBSUB_NAME',
+  configTopic: 'CONFIG_TOPIC',
+  heartbeatPubsubName: 'HEARTBEAT_PUBSUB_NAME',
+  heartbeatTopic: 'HEARTBEAT_TOPIC',
+  definitionsPath: 'DEFINITIONS_PATH',
+  outboxMaxAttempts: 'OUTBOX_MAX_ATTEMPTS',
+  outboxBackoffMs: 'OUTBOX_BACKOFF_MS',
+  outboxMaxBackoffMs: 'OUTBOX_MAX_BACKOFF_MS',
+  outboxDispatchIntervalMs: 'OUTBOX_DISPATCH_INTERVAL_MS',
+  outboxPublishTimeoutMs: 'OUTBOX_PUBLISH_TIMEOUT_MS',
+  outboxStorePath: 'OUTBOX_STORE_PATH',
+  configurationStore: 'CONFIGURATION_STORE',
+  configurationStorePath: 'CONFIGURATION_STORE_PATH',
+  configurationSeedFile: 'CONFIGURATION_SEED_FILE',
+  heartbeatTtlMs: 'HEARTBEAT_TTL_MS',
+  replicaDeadAfterMs: 'REPLICA_DEAD_AFTER_MS',
+  replicaReaperIntervalMs: 'REPLICA_REAPER_INTERVAL_MS',
+  replicaTombstones: 'REPLICA_TOMBSTONES',
+  replicaMaxTombstones: 'REPLICA_MAX_TOMBSTONES',
+  registrationMaxAttempts: 'REGISTRATION_MAX_ATTEMPTS',
+  registrationBackoffMs: 'REGISTRATION_BACKOFF_MS',
+  registrationMaxBackoffMs: 'REGISTRATION_MAX_BACKOFF_MS',
+  definitionSyncIntervalMs: 'DEFINITION_SYNC_INTERVAL_MS',
+  definitionSyncRemovedMode: 'DEFINITION_SYNC_REMOVED_MODE',
+  generatorTickIntervalMs: 'GENERATOR_TICK_INTERVAL_MS',
+  authEnabled: 'AUTH_ENABLED',
+  authApiKeys: 'AUTH_API_KEYS',
+  authJwtSecret: 'AUTH_JWT_SECRET',
+  authJwtPublicKeyFile: 'AUTH_JWT_PUBLIC_KEY_FILE',
+  authJwtRolesClaim: 'AUTH_JWT_ROLES_CLAIM',
+};
+
+/**
+ * Loads and validates the runtime configuration.
+ * @param env - The environment variables.
+ * @returns The validated configuration.
+ * @throws Error listing every invalid setting, so the application fails fast on startup.
+ */
+export function loadAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const settings: Record<string, unknown> = {};
+  if (env.APP_CONFIG_FILE) {
+    let fileSettings: unknown;
+    try {
+      fileSettings = parse(fs.readFileSync(env.APP_CONFIG_FILE, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Configuration file ${env.APP_CONFIG_FILE} can not be read: ${error.message}`,
+      );
+    }
+    Object.assign(settings, fileSettings);
+  }
+  Object.entries(ENVIRONMENT_VARIABLES).forEach(([property, variable]) => {
+    if (env[variable] !== undefined && env[variable] !== '') {
+      settings[property] = env[variable];
+    }
+  });
+  const config = plainToInstance(AppConfig, settings, {
+    enableImplicitConversion: true,
+  });
+  const errors = validateSync(config, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n${errors.map((error) => describeError(error, settings)).join('\n')}`,
+    );
+  }
+  return config;
+}
+
+/**
+ * Describes an invalid setting together with its environment variable.
+ * @param error - The validation error.
+ * @param settings - The raw settings, to report the value before its conversion.
+ * @returns The description.
+ */
+function describeError(
+  error: ValidationError,
+  settings: Record<string, unknown>,
+): string {
+  const variable = ENVIRONMENT_VARIABLES[error.property as keyof AppConfig];
+  const name = variable ? `${error.property} (${variable})` : error.property;
+  const problems = Object.values(error.constraints ?? {}).join(', ');
+  return ` - ${name} = ${JSON.stringify(settings[error.property])}: ${problems}`;
+}
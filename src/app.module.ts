@@ -1,12 +1,38 @@
 import { Module } from '@nestjs/common';
+import { GraphQLModule } from '@nestjs/graphql';
+import { ApolloDriverConfig } from '@nestjs/apollo';
 import { EventModule } from './event/event.module';
 import { ConfigurationModule } from './configuration/configuration.module';
 import { HealthModule } from './health/health.module';
+import { SnapshotModule } from './snapshot/snapshot.module';
+import { TimelineModule } from './timeline/timeline.module';
+import { TransferModule } from './transfer/transfer.module';
+import { ExperimentModule } from './experiment/experiment.module';
+import { GeneratorModule } from './generator/generator.module';
+import { DiffModule } from './diff/diff.module';
+import { AuthModule } from './auth/auth.module';
+import { AppConfigModule } from './app-config/app-config.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { createGraphQLOptions } from './shared/graphql/graphql';
 
 /**
  * Main application module.
  */
 @Module({
-  imports: [EventModule, ConfigurationModule, HealthModule],
+  imports: [
+    AppConfigModule,
+    AuthModule,
+    MetricsModule,
+    GraphQLModule.forRoot<ApolloDriverConfig>(createGraphQLOptions()),
+    EventModule,
+    ConfigurationModule,
+    HealthModule,
+    SnapshotModule,
+    TimelineModule,
+    TransferModule,
+    ExperimentModule,
+    GeneratorModule,
+    DiffModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,53 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { IncomingMessage } from 'http';
+import { Authenticator, ROLES } from './authenticator';
+import { AuthIdentity, Role } from './entities/auth-identity.entity';
+
+/**
+ * Authenticator for static API keys sent in the `X-API-Key` header.
+ */
+export class ApiKeyAuthenticator extends Authenticator {
+  // identities by API key
+  private readonly identities: Map<string, AuthIdentity> = new Map();
+
+  /**
+   * Creates an instance of the ApiKeyAuthenticator class.
+   * @param apiKeys - Comma separated list of `subject:key:role` entries.
+   * @throws Error if an entry is malformed or names an unknown role.
+   */
+  constructor(apiKeys: string) {
+    super();
+    apiKeys
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .forEach((entry) => {
+        const [subject, key, role] = entry.split(':');
+        if (!subject || !key || !ROLES.includes(role as Role)) {
+          throw new Error(
+            `Invalid API key entry for '${subject}', expected subject:key:role`,
+          );
+        }
+        this.identities.set(key, {
+          subject,
+          roles: [role as Role],
+          method: 'api-key',
+        });
+      });
+    Logger.log(`Loaded ${this.identities.size} API keys`, 'Authentication');
+  }
+
+  async authenticate(
+    request: IncomingMessage,
+  ): Promise<AuthIdentity | undefined> {
+    const key = request.headers['x-api-key'];
+    if (typeof key !== 'string') {
+      return undefined;
+    }
+    const identity = this.identities.get(key);
+    if (!identity) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    return identity;
+  }
+}
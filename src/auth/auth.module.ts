@@ -0,0 +1,22 @@
+import { Logger, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthenticationGuard } from './authentication.guard';
+import { authenticatorsProvider } from './authenticators.provider';
+import { RolesGuard } from './roles.guard';
+
+/**
+ * Module for authenticating clients and authorizing them by role.
+ * The guards apply to every route of the application.
+ */
+@Module({
+  imports: [JwtModule.register({})],
+  providers: [
+    Logger,
+    authenticatorsProvider,
+    // guards run in the order they are registered
+    { provide: APP_GUARD, useClass: AuthenticationGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+  ],
+})
+export class AuthModule {}
@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Authenticator } from './authenticator';
+import { AUTHENTICATORS } from './authenticators.provider';
+import { IS_PUBLIC_KEY } from './decorators/public.decorator';
+import { AppConfig } from 'src/app-config/app-config';
+import { getRequest } from './execution-context';
+
+/**
+ * Guard authenticating every request that is not marked as public with the configured authenticators.
+ * The identity of the client is attached to the request.
+ */
+@Injectable()
+export class AuthenticationGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(AUTHENTICATORS) private readonly authenticators: Authenticator[],
+    private readonly config: AppConfig,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    // authentication is opt-in, so existing deployments keep working
+    if (!this.config.authEnabled || isPublic) {
+      return true;
+    }
+    const request = getRequest(context);
+    for (const authenticator of this.authenticators) {
+      const identity = await authenticator.authenticate(request);
+      if (identity) {
+        request.identity = identity;
+        return true;
+      }
+    }
+    throw new UnauthorizedException('Missing credentials');
+  }
+}
@@ -0,0 +1,27 @@
+import { IncomingMessage } from 'http';
+import { AuthIdentity, Role } from './entities/auth-identity.entity';
+
+// all known roles, ordered from the least to the most privileged
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+/**
+ * Abstract class for authenticating requests with a specific kind of credentials.
+ */
+export abstract class Authenticator {
+  /**
+   * Authenticates a request.
+   * @param request - The HTTP request, for GraphQL subscriptions the WebSocket upgrade request.
+   * @returns The identity of the client or undefined if the request does not carry credentials of this kind.
+   * @throws UnauthorizedException if the request carries invalid credentials of this kind.
+   */
+  abstract authenticate(
+    request: IncomingMessage,
+  ): Promise<AuthIdentity | undefined>;
+}
+
+/**
+ * HTTP request carrying the identity of the authenticated client.
+ */
+export interface AuthenticatedRequest extends IncomingMessage {
+  identity?: AuthIdentity;
+}
@@ -0,0 +1,57 @@
+import { Logger, Provider } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as fs from 'fs';
+import { Authenticator } from './authenticator';
+import { ApiKeyAuthenticator } from './api-key.authenticator';
+import { JwtAuthenticator } from './jwt.authenticator';
+import { AppConfig } from 'src/app-config/app-config';
+
+// injection token of the list of enabled authenticators
+export const AUTHENTICATORS = 'AUTHENTICATORS';
+
+/**
+ * Provider selecting the authenticators at startup.
+ * Configured API keys enable static API keys, a configured JWT secret or public key enables JWT bearer tokens.
+ */
+export const authenticatorsProvider: Provider = {
+  provide: AUTHENTICATORS,
+  inject: [JwtService, AppConfig],
+  useFactory: (jwtService: JwtService, config: AppConfig): Authenticator[] => {
+    const authenticators: Authenticator[] = [];
+    if (config.authApiKeys) {
+      authenticators.push(new ApiKeyAuthenticator(config.authApiKeys));
+    }
+    const rolesClaim = config.authJwtRolesClaim;
+    if (config.authJwtPublicKeyFile) {
+      const publicKey = fs.readFileSync(config.authJwtPublicKeyFile, 'utf-8');
+      authenticators.push(
+        new JwtAuthenticator(
+          jwtService,
+          {
+            publicKey,
+            algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'],
+          },
+          rolesClaim,
+        ),
+      );
+    } else if (config.authJwtSecret) {
+      authenticators.push(
+        new JwtAuthenticator(
+          jwtService,
+          {
+            secret: config.authJwtSecret,
+            algorithms: ['HS256', 'HS384', 'HS512'],
+          },
+          rolesClaim,
+        ),
+      );
+    }
+    if (config.authEnabled && authenticators.length === 0) {
+      Logger.warn(
+        'Authentication is enabled but no authenticator is configured, every protected request is rejected',
+        'Authentication',
+      );
+    }
+    return authenticators;
+  },
+};
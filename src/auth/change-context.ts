@@ -0,0 +1,17 @@
+import { ChangeContextDto } from 'src/configuration/dto/change-context.dto';
+import { ChangeContext } from 'src/configuration/entities/configuration-revision.entity';
+import { AuthIdentity } from './entities/auth-identity.entity';
+
+/**
+ * Builds the change context of a request.
+ * The authenticated identity is recorded as actor, the actor of the DTO is only used without authentication.
+ * @param dto - The DTO containing the optional actor and reason.
+ * @param identity - The identity of the authenticated client.
+ * @returns The change context.
+ */
+export function toChangeContext(
+  dto: ChangeContextDto,
+  identity?: AuthIdentity,
+): ChangeContext {
+  return { actor: identity?.subject ?? dto.actor, reason: dto.reason };
+}
@@ -0,0 +1,11 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { AuthIdentity } from '../entities/auth-identity.entity';
+import { getRequest } from '../execution-context';
+
+/**
+ * Injects the identity of the authenticated client, undefined if authentication is disabled.
+ */
+export const Identity = createParamDecorator(
+  (data: unknown, context: ExecutionContext): AuthIdentity | undefined =>
+    getRequest(context).identity,
+);
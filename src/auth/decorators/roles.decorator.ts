@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../entities/auth-identity.entity';
+
+export const ROLE_KEY = 'role';
+
+/**
+ * Sets the least role required for a route or controller.
+ * Without it, reading routes require `viewer` and all other routes `operator`.
+ * @param role - The required role, higher roles are accepted as well.
+ */
+export const RequiredRole = (role: Role) => SetMetadata(ROLE_KEY, role);
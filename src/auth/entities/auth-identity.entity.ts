@@ -0,0 +1,24 @@
+/**
+ * Role of an authenticated client.
+ * viewer - may read configurations.
+ * operator - may additionally change configurations.
+ * admin - may additionally use administrative endpoints such as imports and definition syncs.
+ */
+export type Role = 'viewer' | 'operator' | 'admin';
+
+/**
+ * Method a client was authenticated with.
+ */
+export type AuthMethod = 'api-key' | 'jwt';
+
+/**
+ * Represents an authenticated client.
+ * @property subject - The name of the client, recorded as actor of its changes.
+ * @property roles - The roles of the client.
+ * @property method - The method the client was authenticated with.
+ */
+export interface AuthIdentity {
+  subject: string;
+  roles: Role[];
+  method: AuthMethod;
+}
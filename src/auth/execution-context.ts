@@ -0,0 +1,51 @@
+import { ExecutionContext } from '@nestjs/common';
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql';
+import { Request } from 'express';
+import { AuthenticatedRequest } from './authenticator';
+
+// HTTP methods that only read and therefore require the viewer role by default
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Retrieves the request of a REST call or GraphQL operation.
+ * @param context - The execution context.
+ * @returns The request, for GraphQL subscriptions the WebSocket upgrade request.
+ */
+export function getRequest(context: ExecutionContext): AuthenticatedRequest {
+  if (context.getType<GqlContextType>() === 'graphql') {
+    return GqlExecutionContext.create(context).getContext().req;
+  }
+  return context.switchToHttp().getRequest();
+}
+
+/**
+ * Determines whether a REST call or GraphQL operation only reads.
+ * GraphQL queries and subscriptions only read, mutations change the configuration.
+ * @param context - The execution context.
+ * @returns Whether the call or operation only reads.
+ */
+export function isReadOnly(context: ExecutionContext): boolean {
+  if (context.getType<GqlContextType>() === 'graphql') {
+    return (
+      GqlExecutionContext.create(context).getInfo().operation.operation !==
+      'mutation'
+    );
+  }
+  return READ_METHODS.includes(
+    context.switchToHttp().getRequest<Request>().method,
+  );
+}
+
+/**
+ * Describes a REST call or GraphQL operation for the log.
+ * @param context - The execution context.
+ * @returns The HTTP method and URL or the GraphQL operation type and field.
+ */
+export function describeOperation(context: ExecutionContext): string {
+  if (context.getType<GqlContextType>() === 'graphql') {
+    const info = GqlExecutionContext.create(context).getInfo();
+    return `GraphQL ${info.operation.operation} ${info.fieldName}`;
+  }
+  const request = context.switchToHttp().getRequest<Request>();
+  return `${request.method} ${request.originalUrl}`;
+}
@@ -0,0 +1,54 @@
+import { Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
+import { IncomingMessage } from 'http';
+import { Authenticator, ROLES } from './authenticator';
+import { AuthIdentity } from './entities/auth-identity.entity';
+
+/**
+ * Authenticator for JWT bearer tokens sent in the `Authorization` header.
+ * Tokens are verified against a local secret (HMAC) or public key (RSA, ECDSA),
+ * the subject is taken from the `sub` claim and the roles from a configurable claim.
+ */
+export class JwtAuthenticator extends Authenticator {
+  /**
+   * Creates an instance of the JwtAuthenticator class.
+   * @param jwtService - The service verifying the tokens.
+   * @param verifyOptions - The secret or public key and the accepted algorithms.
+   * @param rolesClaim - The name of the claim containing the role or roles.
+   */
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly verifyOptions: JwtVerifyOptions,
+    private readonly rolesClaim: string,
+  ) {
+    super();
+    Logger.log(
+      `Accepting JWT bearer tokens signed with ${verifyOptions.algorithms?.join(', ')}`,
+      'Authentication',
+    );
+  }
+
+  async authenticate(
+    request: IncomingMessage,
+  ): Promise<AuthIdentity | undefined> {
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      return undefined;
+    }
+    let payload: Record<string, any>;
+    try {
+      payload = await this.jwtService.verifyAsync(token, this.verifyOptions);
+    } catch (error) {
+      throw new UnauthorizedException(`Invalid token: ${error.message}`);
+    }
+    if (typeof payload.sub !== 'string') {
+      throw new UnauthorizedException('Invalid token: missing subject');
+    }
+    const claimedRoles = [payload[this.rolesClaim]].flat();
+    return {
+      subject: payload.sub,
+      roles: ROLES.filter((role) => claimedRoles.includes(role)),
+      method: 'jwt',
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES } from './authenticator';
+import { IS_PUBLIC_KEY } from './decorators/public.decorator';
+import { ROLE_KEY } from './decorators/roles.decorator';
+import { Role } from './entities/auth-identity.entity';
+import { AppConfig } from 'src/app-config/app-config';
+import { describeOperation, getRequest, isReadOnly } from './execution-context';
+
+/**
+ * Guard checking that the authenticated client has the role required by the route.
+ * Higher roles include the lower ones, admin > operator > viewer.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!this.config.authEnabled || isPublic) {
+      return true;
+    }
+    const readOnly = isReadOnly(context);
+    const requiredRole =
+      this.reflector.getAllAndOverride<Role>(ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? (readOnly ? 'viewer' : 'operator');
+    const identity = getRequest(context).identity;
+    const permitted = identity?.roles.some(
+      (role) => ROLES.indexOf(role) >= ROLES.indexOf(requiredRole),
+    );
+    if (!identity || !permitted) {
+      throw new ForbiddenException(`Role '${requiredRole}' required`);
+    }
+    if (!readOnly) {
+      this.logger.log(
+        `${describeOperation(context)} by ${identity.subject} (${identity.roles.join(', ')}, ${identity.method})`,
+      );
+    }
+    return true;
+  }
+}
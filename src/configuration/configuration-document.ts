@@ -0,0 +1,54 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { parse, stringify } from 'yaml';
+import { ConfigurationDocumentDto } from './dto/configuration-document.dto';
+import {
+  ConfigurationDocument,
+  ConfigurationDocumentFormat,
+} from './entities/configuration-document.entity';
+
+// validates parsed documents with the same rules and error format as request bodies
+const documentValidationPipe = new ValidationPipe();
+
+/**
+ * Parses and validates a configuration document.
+ * YAML is a superset of JSON, so text content of both formats is accepted.
+ * @param content - The document as text or as already parsed JSON.
+ * @returns The validated configuration document.
+ * @throws BadRequestException if the content can not be parsed or is not a valid configuration document.
+ */
+export async function parseConfigurationDocument(
+  content: unknown,
+): Promise<ConfigurationDocument> {
+  let document = content;
+  if (typeof content === 'string') {
+    try {
+      document = parse(content);
+    } catch (error) {
+      throw new BadRequestException(
+        `Configuration document can not be parsed: ${error.message}`,
+      );
+    }
+  }
+  if (typeof document !== 'object' || document === null) {
+    throw new BadRequestException('Configuration document must be an object');
+  }
+  return documentValidationPipe.transform(document, {
+    type: 'body',
+    metatype: ConfigurationDocumentDto,
+  });
+}
+
+/**
+ * Serializes a configuration document.
+ * @param document - The configuration document.
+ * @param format - The target format.
+ * @returns The serialized document.
+ */
+export function serializeConfigurationDocument(
+  document: ConfigurationDocument,
+  format: ConfigurationDocumentFormat,
+): string {
+  return format === 'yaml'
+    ? stringify(document)
+    : JSON.stringify(document, null, 2);
+}
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigurationHistoryService } from './configuration-history.service';
+
+describe('ConfigurationHistoryService', () => {
+  let service: ConfigurationHistoryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ConfigurationHistoryService],
+    }).compile();
+
+    service = module.get<ConfigurationHistoryService>(
+      ConfigurationHistoryService,
+    );
+  });
+
+  it('should number revisions per service', () => {
+    service.record('a', [
+      { scope: 'global', key: 'x', oldValue: 1, newValue: 2 },
+    ]);
+    const revision = service.record(
+      'a',
+      [
+        {
+          scope: 'replica',
+          replicaId: 'r1',
+          key: 'x',
+          oldValue: 2,
+          newValue: 3,
+        },
+      ],
+      { actor: 'alice', reason: 'test' },
+    );
+    service.record('b', [
+      { scope: 'global', key: 'y', oldValue: true, newValue: false },
+    ]);
+
+    expect(revision).toMatchObject({
+      revision: 2,
+      serviceName: 'a',
+      actor: 'alice',
+      reason: 'test',
+    });
+    expect(service.findAll('a')).toHaveLength(2);
+    expect(service.findOne('b', 1).changes[0].key).toBe('y');
+    expect(service.findAfter('a', 1)).toEqual([revision]);
+  });
+
+  it('should not record changes that keep the value', () => {
+    const revision = service.record('a', [
+      { scope: 'global', key: 'x', oldValue: { a: 1 }, newValue: { a: 1 } },
+    ]);
+
+    expect(revision).toBeUndefined();
+    expect(service.findAll('a')).toHaveLength(0);
+  });
+
+  it('should throw for unknown revisions', () => {
+    expect(() => service.findOne('a', 1)).toThrow(NotFoundException);
+  });
+});
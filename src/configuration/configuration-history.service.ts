@@ -0,0 +1,90 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ChangeContext,
+  ConfigurationRevision,
+  VariableChange,
+} from './entities/configuration-revision.entity';
+
+/**
+ * Service for recording the change history of service configurations.
+ * Every mutation of a service configuration is stored as a numbered revision.
+ */
+@Injectable()
+export class ConfigurationHistoryService {
+  // revisions per service name, ordered by revision number
+  private readonly revisions: Map<string, ConfigurationRevision[]> = new Map();
+
+  /**
+   * Records a new revision for a service.
+   * Changes that did not alter the value are dropped, no revision is created if nothing changed.
+   * @param serviceName - The name of the service.
+   * @param changes - The variable changes.
+   * @param context - Optional actor and reason of the change.
+   * @returns The created revision or undefined if nothing changed.
+   */
+  record(
+    serviceName: string,
+    changes: VariableChange[],
+    context: ChangeContext = {},
+  ): ConfigurationRevision | undefined {
+    const effectiveChanges = changes.filter(
+      (change) =>
+        JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue),
+    );
+    if (effectiveChanges.length === 0) {
+      return undefined;
+    }
+    const serviceRevisions = this.revisions.get(serviceName) ?? [];
+    const revision: ConfigurationRevision = {
+      revision: serviceRevisions.length + 1,
+      serviceName,
+      timestamp: new Date(),
+      actor: context.actor,
+      reason: context.reason,
+      changes: structuredClone(effectiveChanges),
+    };
+    serviceRevisions.push(revision);
+    this.revisions.set(serviceName, serviceRevisions);
+    return revision;
+  }
+
+  /**
+   * Retrieves all revisions of a service.
+   * @param serviceName - The name of the service.
+   * @returns The revisions, ordered by revision number.
+   */
+  findAll(serviceName: string): ConfigurationRevision[] {
+    return this.revisions.get(serviceName) ?? [];
+  }
+
+  /**
+   * Retrieves a specific revision of a service.
+   * @param serviceName - The name of the service.
+   * @param revision - The revision number.
+   * @returns The revision.
+   * @throws NotFoundException if the revision is not found.
+   */
+  findOne(serviceName: string, revision: number): ConfigurationRevision {
+    const found = this.findAll(serviceName).find(
+      (existing) => existing.revision === revision,
+    );
+    if (!found) {
+      throw new NotFoundException(
+        `Revision ${revision} of service '${serviceName}' not found`,
+      );
+    }
+    return found;
+  }
+
+  /**
+   * Retrieves all revisions of a service that were created after the given revision.
+   * @param serviceName - The name of the service.
+   * @param revision - The revision number, 0 to retrieve all revisions.
+   * @returns The newer revisions, ordered by revision number.
+   */
+  findAfter(serviceName: string, revision: number): ConfigurationRevision[] {
+    return this.findAll(serviceName).filter(
+      (existing) => existing.revision > revision,
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { Logger, Provider } from '@nestjs/common';
+import {
+  InMemoryServiceConfigurationRepository,
+  ServiceConfigurationRepository,
+} from './configuration.repository';
+import { FileServiceConfigurationRepository } from './file-configuration.repository';
+import { AppConfig } from 'src/app-config/app-config';
+
+/**
+ * Provider selecting the storage backend for service configurations at startup.
+ * The `file` store keeps the configurations in the JSON file at the configured store path,
+ * the `memory` store keeps them in memory only.
+ */
+export const configurationRepositoryProvider: Provider = {
+  provide: ServiceConfigurationRepository,
+  inject: [AppConfig],
+  useFactory: (config: AppConfig): ServiceConfigurationRepository => {
+    if (config.configurationStore === 'file') {
+      const filePath = config.configurationStorePath;
+      Logger.log(
+        `Using file configuration store at ${filePath}`,
+        'ConfigurationRepository',
+      );
+      return new FileServiceConfigurationRepository(filePath);
+    }
+    Logger.log(
+      'Using in-memory configuration store',
+      'ConfigurationRepository',
+    );
+    return new InMemoryServiceConfigurationRepository();
+  },
+};
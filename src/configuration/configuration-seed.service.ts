@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import { parseConfigurationDocument } from './configuration-document';
+import { ServiceDocument } from './entities/configuration-document.entity';
+import { AppConfig } from 'src/app-config/app-config';
+
+/**
+ * Service providing the seed configuration that is loaded from `CONFIGURATION_SEED_FILE` at startup.
+ * The seed is applied to a service as soon as it finishes its registration.
+ */
+@Injectable()
+export class ConfigurationSeedService implements OnModuleInit {
+  // seeded service configurations by service name
+  private readonly seeds: Map<string, ServiceDocument> = new Map();
+
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Loads the seed file.
+   * @throws Error if the file can not be read or is not a valid configuration document.
+   */
+  async onModuleInit() {
+    // seeding is disabled if no seed file is set
+    const seedFile = this.config.configurationSeedFile;
+    if (!seedFile) {
+      return;
+    }
+    const content = await fs.readFile(seedFile, 'utf-8');
+    const document = await parseConfigurationDocument(content).catch(
+      (error) => {
+        throw new Error(
+          `Invalid seed file ${seedFile}: ${JSON.stringify(error.getResponse?.() ?? error.message)}`,
+        );
+      },
+    );
+    document.services.forEach((service) =>
+      this.seeds.set(service.name, service),
+    );
+    this.logger.log(
+      `Loaded seed for ${this.seeds.size} services from ${seedFile}`,
+    );
+  }
+
+  /**
+   * Retrieves the seed of a service.
+   * @param serviceName - The name of the service.
+   * @returns The seeded service configuration or undefined if the service is not seeded.
+   */
+  findServiceSeed(serviceName: string): ServiceDocument | undefined {
+    return this.seeds.get(serviceName);
+  }
+
+  /**
+   * Retrieves the path of the seed file.
+   * @returns The path or undefined if seeding is disabled.
+   */
+  getSeedFile(): string | undefined {
+    return this.config.configurationSeedFile;
+  }
+}
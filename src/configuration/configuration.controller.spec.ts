@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigurationController } from './configuration.controller';
+import { ConfigurationService } from './configuration.service';
+import { ReplicaLivenessService } from './replica-liveness.service';
+import { ConfigurationHistoryService } from './configuration-history.service';
+import { DefinitionSyncService } from './definition-sync.service';
 
 describe('ConfigurationController', () => {
   let controller: ConfigurationController;
@@ -7,6 +11,12 @@ describe('ConfigurationController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ConfigurationController],
+      providers: [
+        { provide: ConfigurationService, useValue: {} },
+        { provide: ReplicaLivenessService, useValue: {} },
+        { provide: ConfigurationHistoryService, useValue: {} },
+        { provide: DefinitionSyncService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ConfigurationController>(ConfigurationController);
@@ -1,30 +1,123 @@
-import { Body, Controller, Get, Param, Put } from '@nestjs/common';
-import { ConfigurationService } from './configuration.service';
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Put,
+  MessageEvent,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import {
+  ConfigurationService,
+  ReplicaVariableView,
+} from './configuration.service';
 import {
   ConfigurationVariable,
   ConfigurationVariableDefinition,
   ServiceConfiguration,
-  ServiceReplica,
 } from './entities/service-configuration.entity';
 import { UpdateVariableDto } from './dto/update-variable.dto';
 import { BatchUpdateVariableDto } from './dto/batch-update-variables.dto';
+import { BatchChangeSetDto } from './dto/batch-change-set.dto';
+import {
+  TargetedUpdateResultDto,
+  TargetedUpdateVariableDto,
+} from './dto/targeted-update.dto';
+import { TargetedUpdateResult } from './entities/replica-target.entity';
+import {
+  ReplicaLivenessService,
+  ReplicaLivenessStatus,
+} from './replica-liveness.service';
+import { ConfigurationHistoryService } from './configuration-history.service';
+import { ConfigurationRevision } from './entities/configuration-revision.entity';
+import { ChangeContextDto } from './dto/change-context.dto';
+import { DefinitionSyncService } from './definition-sync.service';
+import { ServiceRegistration } from './entities/service-registration.entity';
+import { VariableValidationResult } from './entities/variable-validation.entity';
+import {
+  DefinitionSyncReport,
+  RemovedDefinitionMode,
+} from './entities/definition-sync-report.entity';
+import {
+  ApiBadGatewayResponse,
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import {
+  ConfigurationVariableDefinitionDto,
+  ConfigurationVariableDto,
+  ReplicaLivenessStatusDto,
+  ServiceConfigurationDto,
+} from './dto/service-configuration.dto';
+import {
+  ConfigurationChangeEventDto,
+  ConfigurationRevisionDto,
+} from './dto/configuration-revision.dto';
+import { ServiceRegistrationDto } from './dto/service-registration.dto';
+import { DefinitionSyncReportDto } from './dto/definition-sync-report.dto';
+import {
+  VariableValidationErrorResponseDto,
+  VariableValidationResultDto,
+} from './dto/variable-validation.dto';
+import { RequiredRole } from 'src/auth/decorators/roles.decorator';
+import { toChangeContext } from 'src/auth/change-context';
+import { Identity } from 'src/auth/decorators/identity.decorator';
+import { AuthIdentity } from 'src/auth/entities/auth-identity.entity';
+
+// validates the requested view on replica variables
+const REPLICA_VIEW_PIPE = new ParseEnumPipe(['effective', 'overrides']);
 
 /**
  * Controller for handling configurations.
  */
+@ApiTags('configuration')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
 @Controller('configuration')
 export class ConfigurationController {
   /**
    * Creates an instance of the ConfigurationController class.
    * @param configurationService The configuration service.
+   * @param replicaLivenessService The replica liveness service.
+   * @param historyService The configuration history service.
+   * @param definitionSyncService The definition sync service.
    */
-  constructor(private readonly configurationService: ConfigurationService) {}
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly replicaLivenessService: ReplicaLivenessService,
+    private readonly historyService: ConfigurationHistoryService,
+    private readonly definitionSyncService: DefinitionSyncService,
+  ) {}
 
   /**
    * HTTP Endpoint to get all service configurations.
    * @returns All services configurations.
    */
   @Get()
+  @ApiOperation({ summary: 'Get all service configurations' })
+  @ApiOkResponse({ type: [ServiceConfigurationDto] })
   getAllServices(): ServiceConfiguration[] {
     return this.configurationService.findAllServices();
   }
@@ -34,16 +127,117 @@ export class ConfigurationController {
    * @returns All service names.
    */
   @Get('names')
+  @ApiOperation({ summary: 'Get all service names' })
+  @ApiOkResponse({ type: [String] })
   getAllServiceNames(): string[] {
     return this.configurationService.findAllServiceNames();
   }
 
+  /**
+   * Server-Sent Events endpoint streaming configuration changes.
+   * Each event carries its type as SSE event name and the change event as data.
+   * @param serviceName - Optional name of a service to only stream its events.
+   * @returns An Observable emitting the change events.
+   */
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream configuration changes as server-sent events',
+  })
+  @ApiQuery({ name: 'service', required: false })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({ type: ConfigurationChangeEventDto })
+  streamChanges(
+    @Query('service') serviceName?: string,
+  ): Observable<MessageEvent> {
+    return this.configurationService.streamChanges(serviceName).pipe(
+      map((event) => ({
+        type: event.type,
+        data: event,
+      })),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to update variables of several services and replicas as a whole.
+   * Everything is validated before the first change is made, if anything is invalid nothing is applied.
+   * The configurations are published once everything is applied, one event per service.
+   * @param batchChangeSetDto - The DTO containing the updates per service.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The updated service configurations.
+   */
+  @Post('batch')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Update variables of several services as a whole' })
+  @ApiOkResponse({ type: [ServiceConfigurationDto] })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  applyBatch(
+    @Body() batchChangeSetDto: BatchChangeSetDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ServiceConfiguration[] {
+    return this.configurationService.applyChangeSets(
+      batchChangeSetDto.changeSets,
+      toChangeContext(batchChangeSetDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to reset all services to the default values of their variable definitions.
+   * All replica overrides are removed, either all services are reset or none.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The recorded revisions listing the values that changed, one per changed service.
+   */
+  @Post('reset')
+  @RequiredRole('admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset all services to their defaults' })
+  @ApiOkResponse({ type: [ConfigurationRevisionDto] })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  resetAll(
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ConfigurationRevision[] {
+    return this.configurationService.resetAll(
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to get the registration state of all services that sent a heartbeat.
+   * @returns The registrations including their state and last error.
+   */
+  @Get('registrations')
+  @ApiOperation({ summary: 'Get the registrations of all services' })
+  @ApiOkResponse({ type: [ServiceRegistrationDto] })
+  getRegistrations(): ServiceRegistration[] {
+    return this.configurationService.findAllRegistrations();
+  }
+
+  /**
+   * HTTP Endpoint to get the registration state of a service.
+   * @param serviceName The name of the service.
+   * @returns The registration including its state and last error.
+   */
+  @Get(':service/registration')
+  @ApiOperation({ summary: 'Get the registration of a service' })
+  @ApiOkResponse({ type: ServiceRegistrationDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getServiceRegistration(
+    @Param('service') serviceName: string,
+  ): ServiceRegistration {
+    return this.configurationService.findRegistration(serviceName);
+  }
+
   /**
    * HTTP Endpoint to get one service configurations.
    * @param serviceName The name of the service.
    * @returns The service configurations.
    */
   @Get(':service/defined-variables')
+  @ApiOperation({ summary: 'Get the variable definitions of a service' })
+  @ApiOkResponse({ type: [ConfigurationVariableDefinitionDto] })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   getServiceDefinedVariables(
     @Param('service') serviceName: string,
   ): ConfigurationVariableDefinition[] {
@@ -51,12 +245,43 @@ export class ConfigurationController {
       ?.variableDefinitions;
   }
 
+  /**
+   * HTTP Endpoint to re-fetch the variable definitions of a service from its sidecar.
+   * New variables are added with their default value and values are revalidated against changed schemas.
+   * @param serviceName The name of the service.
+   * @param removedMode `flag` (default) keeps vanished variables as deprecated, `remove` removes them.
+   * @returns The report of the differences and invalidated values.
+   */
+  @Post(':service/defined-variables/sync')
+  @RequiredRole('admin')
+  @ApiOperation({
+    summary: 'Re-fetch the variable definitions of a service from its sidecar',
+  })
+  @ApiQuery({ name: 'removed', required: false, enum: ['flag', 'remove'] })
+  @ApiCreatedResponse({ type: DefinitionSyncReportDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiBadGatewayResponse({ type: ErrorResponseDto })
+  syncServiceDefinedVariables(
+    @Param('service') serviceName: string,
+    @Query(
+      'removed',
+      new DefaultValuePipe('flag'),
+      new ParseEnumPipe(['flag', 'remove']),
+    )
+    removedMode: RemovedDefinitionMode,
+  ): Promise<DefinitionSyncReport> {
+    return this.definitionSyncService.syncService(serviceName, removedMode);
+  }
+
   /**
    * HTTP Endpoint to get all variables for a service.
    * @param serviceName The name of the service.
    * @returns All variables for the service.
    */
   @Get(':service/variables')
+  @ApiOperation({ summary: 'Get the global variables of a service' })
+  @ApiOkResponse({ type: [ConfigurationVariableDto] })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   getServiceVariables(
     @Param('service') serviceName: string,
   ): ConfigurationVariable[] {
@@ -66,27 +291,101 @@ export class ConfigurationController {
   /**
    * HTTP Endpoint to get all replica configurations of a service.
    * @param serviceName The name of the service.
-   * @returns The replicas configurations.
+   * @param selector - Optional label selector the replicas must match.
+   * @returns The replicas configurations including their liveness and last seen age.
    */
   @Get(':service/replicas')
-  getServiceReplicas(@Param('service') serviceName: string): ServiceReplica[] {
-    return this.configurationService.findService(serviceName)?.replicas;
+  @ApiOperation({
+    summary: 'Get the replicas of a service with their liveness',
+  })
+  @ApiQuery({
+    name: 'selector',
+    required: false,
+    description:
+      'Comma separated requirements on `version`, `host`, `zone` or labels, e.g. `zone=a,version!=2`',
+  })
+  @ApiOkResponse({ type: [ReplicaLivenessStatusDto] })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getServiceReplicas(
+    @Param('service') serviceName: string,
+    @Query('selector') selector?: string,
+  ): ReplicaLivenessStatus[] {
+    return this.replicaLivenessService.getReplicaStatuses(
+      serviceName,
+      selector,
+    );
+  }
+
+  /**
+   * HTTP Endpoint to update the overrides of all replicas selected by their metadata.
+   * @param serviceName - The name of the service.
+   * @param targetedUpdateDto - The DTO containing the selection and the variables to be updated.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The IDs of the updated replicas and the updated service configuration.
+   */
+  @Put(':service/replicas/variables')
+  @ApiOperation({
+    summary: 'Update overrides of the replicas matching a label selector',
+  })
+  @ApiOkResponse({ type: TargetedUpdateResultDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  updateSelectedReplicaVariables(
+    @Param('service') serviceName: string,
+    @Body() targetedUpdateDto: TargetedUpdateVariableDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): TargetedUpdateResult {
+    return this.configurationService.batchAddOrUpdateSelectedReplicaVariables(
+      serviceName,
+      targetedUpdateDto,
+      targetedUpdateDto.variables,
+      toChangeContext(targetedUpdateDto, identity),
+    );
   }
 
   /**
    * HTTP Endpoint to update the variables for a specific service.
    * @param serviceName - The name of the service.
    * @param batchUpdateDto - The DTO containing the variables to be updated.
+   * @param identity - The authenticated client, recorded as actor.
    * @returns The updated service configuration.
    */
   @Put(':service/variables')
+  @ApiOperation({ summary: 'Update global variables of a service' })
+  @ApiOkResponse({ type: ServiceConfigurationDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   updateServiceVariables(
     @Param('service') serviceName: string,
     @Body() batchUpdateDto: BatchUpdateVariableDto,
+    @Identity() identity: AuthIdentity | undefined,
   ): ServiceConfiguration {
     return this.configurationService.batchAddOrUpdateServiceVariables(
       serviceName,
       batchUpdateDto.variables,
+      toChangeContext(batchUpdateDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to validate variables for a specific service without applying them.
+   * @param serviceName - The name of the service.
+   * @param batchUpdateDto - The DTO containing the variables to be validated.
+   * @returns The validation result listing every error.
+   */
+  @Post(':service/variables/validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Validate global variables without applying them' })
+  @ApiOkResponse({ type: VariableValidationResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  validateServiceVariables(
+    @Param('service') serviceName: string,
+    @Body() batchUpdateDto: BatchUpdateVariableDto,
+  ): VariableValidationResult {
+    return this.configurationService.dryRunServiceVariables(
+      serviceName,
+      batchUpdateDto.variables,
     );
   }
 
@@ -97,6 +396,9 @@ export class ConfigurationController {
    * @returns The configuration variable.
    */
   @Get(':service/variables/:variable')
+  @ApiOperation({ summary: 'Get a global variable of a service' })
+  @ApiOkResponse({ type: ConfigurationVariableDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   getServiceVariable(
     @Param('service') serviceName: string,
     @Param('variable') variableKey: string,
@@ -112,13 +414,19 @@ export class ConfigurationController {
    * @param serviceName - The name of the service.
    * @param variableKey - The key of the variable.
    * @param updateDto - The DTO containing the updated value.
+   * @param identity - The authenticated client, recorded as actor.
    * @returns The updated service configuration.
    */
   @Put(':service/variables/:variable')
+  @ApiOperation({ summary: 'Update a global variable of a service' })
+  @ApiOkResponse({ type: ServiceConfigurationDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   updateServiceVariable(
     @Param('service') serviceName: string,
     @Param('variable') variableKey: string,
     @Body() updateDto: UpdateVariableDto,
+    @Identity() identity: AuthIdentity | undefined,
   ): ServiceConfiguration {
     const updatedVariable: ConfigurationVariable = {
       key: variableKey,
@@ -127,6 +435,7 @@ export class ConfigurationController {
     return this.configurationService.batchAddOrUpdateServiceVariables(
       serviceName,
       [updatedVariable],
+      toChangeContext(updateDto, identity),
     );
   }
 
@@ -134,15 +443,25 @@ export class ConfigurationController {
    * HTTP Endpoint to get all variables for a specific replica.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
+   * @param view - `effective` (default) for the values in effect, `overrides` for the replica overrides only.
    * @returns All variables for the replica.
    */
   @Get(':service/replicas/:replica/variables')
+  @ApiOperation({ summary: 'Get the variables of a replica' })
+  @ApiQuery({ name: 'view', required: false, enum: ['effective', 'overrides'] })
+  @ApiOkResponse({ type: [ConfigurationVariableDto] })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   getReplicaVariables(
     @Param('service') serviceName: string,
     @Param('replica') replicaId: string,
+    @Query('view', new DefaultValuePipe('effective'), REPLICA_VIEW_PIPE)
+    view: ReplicaVariableView,
   ): ConfigurationVariable[] {
-    return this.configurationService.findReplica(serviceName, replicaId)
-      ?.replicaVariables;
+    return this.configurationService.getReplicaVariables(
+      serviceName,
+      replicaId,
+      view,
+    );
   }
 
   /**
@@ -150,18 +469,49 @@ export class ConfigurationController {
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
    * @param batchUpdateDto - The DTO containing the variables to be updated.
+   * @param identity - The authenticated client, recorded as actor.
    * @returns The updated replica configuration.
    */
   @Put(':service/replicas/:replica/variables')
+  @ApiOperation({ summary: 'Update overrides of a replica' })
+  @ApiOkResponse({ type: ServiceConfigurationDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   updateReplicaVariables(
     @Param('service') serviceName: string,
     @Param('replica') replicaId: string,
     @Body() batchUpdateDto: BatchUpdateVariableDto,
+    @Identity() identity: AuthIdentity | undefined,
   ) {
     return this.configurationService.batchAddOrUpdateReplicaVariables(
       serviceName,
       replicaId,
       batchUpdateDto.variables,
+      toChangeContext(batchUpdateDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to validate variables for a specific replica without applying them.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param batchUpdateDto - The DTO containing the variables to be validated.
+   * @returns The validation result listing every error.
+   */
+  @Post(':service/replicas/:replica/variables/validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Validate replica variables without applying them' })
+  @ApiOkResponse({ type: VariableValidationResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  validateReplicaVariables(
+    @Param('service') serviceName: string,
+    @Param('replica') replicaId: string,
+    @Body() batchUpdateDto: BatchUpdateVariableDto,
+  ): VariableValidationResult {
+    return this.configurationService.dryRunReplicaVariables(
+      serviceName,
+      replicaId,
+      batchUpdateDto.variables,
     );
   }
 
@@ -170,18 +520,26 @@ export class ConfigurationController {
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
    * @param variableKey - The key of the variable.
+   * @param view - `effective` (default) for the value in effect, `overrides` for the replica override only.
    * @returns The configuration variable.
    */
   @Get(':service/replicas/:replica/variables/:variable')
+  @ApiOperation({ summary: 'Get a variable of a replica' })
+  @ApiQuery({ name: 'view', required: false, enum: ['effective', 'overrides'] })
+  @ApiOkResponse({ type: ConfigurationVariableDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   getReplicaVariable(
     @Param('service') serviceName: string,
     @Param('replica') replicaId: string,
     @Param('variable') variableKey: string,
+    @Query('view', new DefaultValuePipe('effective'), REPLICA_VIEW_PIPE)
+    view: ReplicaVariableView,
   ): ConfigurationVariable {
     return this.configurationService.getReplicaVariable(
       serviceName,
       replicaId,
       variableKey,
+      view,
     );
   }
 
@@ -191,14 +549,20 @@ export class ConfigurationController {
    * @param replicaId - The ID of the replica.
    * @param variableKey - The key of the variable.
    * @param updateDto - The DTO containing the updated value.
+   * @param identity - The authenticated client, recorded as actor.
    * @returns The updated replica configuration.
    */
   @Put(':service/replicas/:replica/variables/:variable')
+  @ApiOperation({ summary: 'Update an override of a replica' })
+  @ApiOkResponse({ type: ServiceConfigurationDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
   updateReplicaVariable(
     @Param('service') serviceName: string,
     @Param('replica') replicaId: string,
     @Param('variable') variableKey: string,
     @Body() updateDto: UpdateVariableDto,
+    @Identity() identity: AuthIdentity | undefined,
   ): ServiceConfiguration {
     const updatedVariable: ConfigurationVariable = {
       key: variableKey,
@@ -208,6 +572,175 @@ export class ConfigurationController {
       serviceName,
       replicaId,
       [updatedVariable],
+      toChangeContext(updateDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to remove the override of a variable for a specific replica.
+   * The replica falls back to the global value of the variable.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param variableKey - The key of the variable.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The updated service configuration.
+   */
+  @Delete(':service/replicas/:replica/variables/:variable')
+  @ApiOperation({ summary: 'Remove an override of a replica' })
+  @ApiOkResponse({ type: ServiceConfigurationDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  deleteReplicaVariable(
+    @Param('service') serviceName: string,
+    @Param('replica') replicaId: string,
+    @Param('variable') variableKey: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ServiceConfiguration {
+    return this.configurationService.deleteReplicaOverride(
+      serviceName,
+      replicaId,
+      variableKey,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to get all revisions of a service configuration.
+   * @param serviceName - The name of the service.
+   * @returns All revisions of the service, ordered by revision number.
+   */
+  @Get(':service/revisions')
+  @ApiOperation({ summary: 'Get the revisions of a service' })
+  @ApiOkResponse({ type: [ConfigurationRevisionDto] })
+  getServiceRevisions(
+    @Param('service') serviceName: string,
+  ): ConfigurationRevision[] {
+    this.configurationService.findService(serviceName);
+    return this.historyService.findAll(serviceName);
+  }
+
+  /**
+   * HTTP Endpoint to get a specific revision of a service configuration.
+   * @param serviceName - The name of the service.
+   * @param revision - The revision number.
+   * @returns The revision including all variable changes.
+   */
+  @Get(':service/revisions/:revision')
+  @ApiOperation({ summary: 'Get a revision of a service' })
+  @ApiOkResponse({ type: ConfigurationRevisionDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getServiceRevision(
+    @Param('service') serviceName: string,
+    @Param('revision', ParseIntPipe) revision: number,
+  ): ConfigurationRevision {
+    return this.historyService.findOne(serviceName, revision);
+  }
+
+  /**
+   * HTTP Endpoint to roll a service configuration back to a prior revision.
+   * @param serviceName - The name of the service.
+   * @param revision - The revision to roll back to, 0 reverts all recorded changes.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The updated service configuration.
+   */
+  @Post(':service/revisions/:revision/rollback')
+  @ApiOperation({ summary: 'Roll a service back to a revision' })
+  @ApiCreatedResponse({ type: ServiceConfigurationDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  rollbackService(
+    @Param('service') serviceName: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ServiceConfiguration {
+    return this.configurationService.rollbackService(
+      serviceName,
+      revision,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to reset a service to the default values of its variable definitions.
+   * All replica overrides of the service are removed.
+   * @param serviceName - The name of the service.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The recorded revision listing the values that changed, empty if nothing changed.
+   */
+  @Post(':service/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset a service to its defaults' })
+  @ApiOkResponse({ type: [ConfigurationRevisionDto] })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  resetService(
+    @Param('service') serviceName: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ConfigurationRevision[] {
+    return this.configurationService.resetService(
+      serviceName,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to reset a variable of a service to its default value.
+   * The overrides of the variable are removed from all replicas.
+   * @param serviceName - The name of the service.
+   * @param variableKey - The key of the variable.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The recorded revision listing the values that changed, empty if nothing changed.
+   */
+  @Post(':service/variables/:variable/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset a variable to its default' })
+  @ApiOkResponse({ type: [ConfigurationRevisionDto] })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  resetServiceVariable(
+    @Param('service') serviceName: string,
+    @Param('variable') variableKey: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ConfigurationRevision[] {
+    return this.configurationService.resetVariable(
+      serviceName,
+      variableKey,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to reset a replica by removing all of its overrides.
+   * The replica falls back to the global variables of its service.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The recorded revision listing the removed overrides, empty if the replica had none.
+   */
+  @Post(':service/replicas/:replica/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove all overrides of a replica' })
+  @ApiOkResponse({ type: [ConfigurationRevisionDto] })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  resetReplica(
+    @Param('service') serviceName: string,
+    @Param('replica') replicaId: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ConfigurationRevision[] {
+    return this.configurationService.resetReplica(
+      serviceName,
+      replicaId,
+      toChangeContext(changeContextDto, identity),
     );
   }
 }
@@ -4,6 +4,13 @@ import { ConfigurationController } from './configuration.controller';
 import { EventModule } from 'src/event/event.module';
 import { ConnectorService } from './connector.service';
 import { HttpModule } from '@nestjs/axios';
+import { ReplicaLivenessService } from './replica-liveness.service';
+import { ConfigurationHistoryService } from './configuration-history.service';
+import { ConfigurationSeedService } from './configuration-seed.service';
+import { DefinitionSyncService } from './definition-sync.service';
+import { configurationRepositoryProvider } from './configuration-repository.provider';
+import { ConfigurationResolver } from './configuration.resolver';
+import { VariableValidatorService } from './variable-validator.service';
 
 /**
  * Module for handling configurations.
@@ -14,7 +21,18 @@ import { HttpModule } from '@nestjs/axios';
     forwardRef(() => EventModule),
     HttpModule,
   ],
-  providers: [ConfigurationService, Logger, ConnectorService],
+  providers: [
+    ConfigurationService,
+    Logger,
+    ConnectorService,
+    configurationRepositoryProvider,
+    ReplicaLivenessService,
+    ConfigurationHistoryService,
+    VariableValidatorService,
+    ConfigurationSeedService,
+    DefinitionSyncService,
+    ConfigurationResolver,
+  ],
   controllers: [ConfigurationController],
   exports: [ConfigurationService],
 })
@@ -1,11 +1,69 @@
 import { NotFoundException } from '@nestjs/common';
 import { ServiceConfiguration } from './entities/service-configuration.entity';
 
+/**
+ * Storage abstraction for services and their configurations.
+ * The concrete implementation is selected at startup, see `configurationRepositoryProvider`.
+ */
+export abstract class ServiceConfigurationRepository {
+  /**
+   * Creates a new service configuration and adds it to the repository.
+   * @param serviceConfiguration - The service configuration to be created.
+   * @throws Error if the service name already exists.
+   * @returns The created service configuration.
+   */
+  abstract create(
+    serviceConfiguration: ServiceConfiguration,
+  ): ServiceConfiguration;
+
+  /**
+   * Checks if a service configuration with the provided name exists.
+   * @param name - The name of the service to check.
+   * @returns True if the service configuration exists, false otherwise.
+   */
+  abstract exists(name: string): boolean;
+
+  /**
+   * Finds a service configuration by its service name.
+   * @param name - The name of the service for which the configuration should be found.
+   * @returns The found service configuration
+   * @throws NotFoundException if the service configuration with the provided name is not found.
+   */
+  abstract findByName(name: string): ServiceConfiguration;
+
+  /**
+   * Finds all service configurations.
+   * @returns All service configurations.
+   */
+  abstract findAll(): ServiceConfiguration[];
+
+  /**
+   * Updates a service configuration for the provided service name.
+   * @param name - The ID of the service configuration to update.
+   * @param update - The partial service configuration object with the updated values.
+   * @returns The updated service configuration
+   * @throws NotFoundException if the service configuration with the provided name is not found.
+   */
+  abstract update(
+    name: string,
+    update: Partial<ServiceConfiguration>,
+  ): ServiceConfiguration;
+
+  /**
+   * Deletes a service configuration with the provided ID.
+   * @param name - The name of the service for which the configuration should be deleted.
+   * @returns True if the service configuration was successfully deleted, false otherwise.
+   */
+  abstract delete(name: string): boolean;
+}
+
 /**
  * Repository class for storing services and configurations in memory using a Map.
+ * Nothing survives a restart of the service.
  */
-export class ServiceConfigurationRepository {
-  private serviceConfigurations: Map<string, ServiceConfiguration> = new Map();
+export class InMemoryServiceConfigurationRepository extends ServiceConfigurationRepository {
+  protected serviceConfigurations: Map<string, ServiceConfiguration> =
+    new Map();
 
   /**
    * Creates a new service configuration and adds it to the repository.
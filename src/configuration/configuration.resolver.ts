@@ -0,0 +1,173 @@
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  Args,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+  Subscription,
+} from '@nestjs/graphql';
+import { PubSub, withFilter } from 'graphql-subscriptions';
+import { Subscription as RxSubscription } from 'rxjs';
+import { ConfigurationService } from './configuration.service';
+import { selectReplicas } from './replica-selector';
+import {
+  ServiceConfigurationModel,
+  ServiceReplicaModel,
+} from './models/service-configuration.model';
+import { ConfigurationChangeEventModel } from './models/configuration-change-event.model';
+import {
+  UpdateReplicaVariablesInput,
+  UpdateServiceVariablesInput,
+} from './dto/update-variables.input';
+import { ServiceConfiguration } from './entities/service-configuration.entity';
+import { ConfigurationChangeEvent } from './entities/configuration-change-event.entity';
+import { Identity } from 'src/auth/decorators/identity.decorator';
+import { AuthIdentity } from 'src/auth/entities/auth-identity.entity';
+import { toChangeContext } from 'src/auth/change-context';
+
+// trigger of the configuration change subscription
+const CONFIGURATION_CHANGED = 'configurationChanged';
+
+/**
+ * GraphQL resolver for service configurations.
+ * Offers the same reads, validated updates and change events as the REST API.
+ */
+@Resolver(() => ServiceConfigurationModel)
+export class ConfigurationResolver implements OnModuleInit, OnModuleDestroy {
+  private readonly pubSub = new PubSub();
+  private changes?: RxSubscription;
+
+  /**
+   * Creates an instance of the ConfigurationResolver class.
+   * @param configurationService The configuration service.
+   */
+  constructor(private readonly configurationService: ConfigurationService) {}
+
+  onModuleInit() {
+    this.changes = this.configurationService
+      .streamChanges()
+      .subscribe((event) =>
+        this.pubSub.publish(CONFIGURATION_CHANGED, {
+          [CONFIGURATION_CHANGED]: event,
+        }),
+      );
+  }
+
+  onModuleDestroy() {
+    this.changes?.unsubscribe();
+  }
+
+  /**
+   * Query for the configurations of all services.
+   * @returns The service configurations.
+   */
+  @Query(() => [ServiceConfigurationModel], {
+    description: 'The configurations of all registered services',
+  })
+  services(): ServiceConfiguration[] {
+    return this.configurationService.findAllServices();
+  }
+
+  /**
+   * Query for the configuration of a service.
+   * @param name - The name of the service.
+   * @returns The service configuration.
+   * @throws NotFoundException if the service is not found.
+   */
+  @Query(() => ServiceConfigurationModel, {
+    description: 'The configuration of a service',
+  })
+  service(@Args('name') name: string): ServiceConfiguration {
+    return this.configurationService.findService(name);
+  }
+
+  /**
+   * Resolves the replicas of a service together with their effective variables.
+   * @param service - The service configuration.
+   * @param selector - Optional label selector the replicas must match.
+   * @returns The replicas.
+   * @throws BadRequestException if the selector is invalid.
+   */
+  @ResolveField(() => [ServiceReplicaModel])
+  replicas(
+    @Parent() service: ServiceConfiguration,
+    @Args('selector', {
+      nullable: true,
+      description: 'Label selector like `zone=a,version!=2`',
+    })
+    selector?: string,
+  ): ServiceReplicaModel[] {
+    return selectReplicas(service.replicas, { selector }).map((replica) => ({
+      ...replica,
+      effectiveVariables: this.configurationService.getEffectiveVariables(
+        service,
+        replica,
+      ),
+    }));
+  }
+
+  /**
+   * Mutation updating the global variables of a service.
+   * @param input - The service, the updated variables and the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The updated service configuration.
+   * @throws BadRequestException if the variables do not match the variable definitions.
+   * @throws NotFoundException if the service is not found.
+   */
+  @Mutation(() => ServiceConfigurationModel, {
+    description: 'Updates global variables of a service',
+  })
+  updateServiceVariables(
+    @Args('input') input: UpdateServiceVariablesInput,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ServiceConfiguration {
+    return this.configurationService.batchAddOrUpdateServiceVariables(
+      input.service,
+      input.variables,
+      toChangeContext(input, identity),
+    );
+  }
+
+  /**
+   * Mutation adding or updating overrides of a replica.
+   * @param input - The service, the replica, the updated variables and the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The updated service configuration.
+   * @throws BadRequestException if the variables do not match the variable definitions.
+   * @throws NotFoundException if the service or replica is not found.
+   */
+  @Mutation(() => ServiceConfigurationModel, {
+    description: 'Adds or updates overrides of a replica',
+  })
+  updateReplicaVariables(
+    @Args('input') input: UpdateReplicaVariablesInput,
+    @Identity() identity: AuthIdentity | undefined,
+  ): ServiceConfiguration {
+    return this.configurationService.batchAddOrUpdateReplicaVariables(
+      input.service,
+      input.replica,
+      input.variables,
+      toChangeContext(input, identity),
+    );
+  }
+
+  /**
+   * Subscription to configuration change events.
+   * @param service - Optional name of a service to only receive its events.
+   * @returns An async iterator emitting the change events.
+   */
+  @Subscription(() => ConfigurationChangeEventModel, {
+    description: 'Changes of the configuration state',
+  })
+  configurationChanged(
+    @Args('service', { nullable: true }) service?: string,
+  ): AsyncIterator<ConfigurationChangeEvent> {
+    return withFilter(
+      () => this.pubSub.asyncIterator(CONFIGURATION_CHANGED),
+      (payload: Record<string, ConfigurationChangeEvent>) =>
+        !service || payload[CONFIGURATION_CHANGED].serviceName === service,
+    )();
+  }
+}
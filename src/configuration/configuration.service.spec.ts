@@ -1,18 +1,517 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigurationService } from './configuration.service';
+import { ConfigurationHistoryService } from './configuration-history.service';
+import {
+  InMemoryServiceConfigurationRepository,
+  ServiceConfigurationRepository,
+} from './configuration.repository';
+import { ConnectorService } from './connector.service';
+import { VariableValidatorService } from './variable-validator.service';
+import { ConfigurationSeedService } from './configuration-seed.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { AppConfig } from 'src/app-config/app-config';
+import { EventService } from 'src/event/events.service';
+
+// variable definitions returned by the mocked sidecar
+const DEFINITIONS = {
+  configuration: {
+    latency: { type: { type: 'integer', minimum: 0 }, defaultValue: 0 },
+    errorRate: {
+      type: { type: 'number', minimum: 0, maximum: 1 },
+      defaultValue: 0,
+    },
+  },
+};
 
 describe('ConfigurationService', () => {
   let service: ConfigurationService;
+  let historyService: ConfigurationHistoryService;
+  let config: AppConfig;
+  let getConfigFromSidecar: jest.Mock;
+  let publishConfiguration: jest.Mock;
+
+  // value of a global variable of a service
+  const globalValue = (serviceName: string, key: string) =>
+    service
+      .findService(serviceName)
+      .globalVariables.find((variable) => variable.key === key)?.value;
 
   beforeEach(async () => {
+    config = new AppConfig();
+    getConfigFromSidecar = jest.fn().mockResolvedValue({ data: DEFINITIONS });
+    publishConfiguration = jest.fn();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ConfigurationService],
+      providers: [
+        ConfigurationService,
+        ConfigurationHistoryService,
+        VariableValidatorService,
+        ConfigurationSeedService,
+        MetricsService,
+        {
+          provide: ServiceConfigurationRepository,
+          useValue: new InMemoryServiceConfigurationRepository(),
+        },
+        { provide: ConnectorService, useValue: { getConfigFromSidecar } },
+        {
+          provide: EventService,
+          useValue: { publishConfiguration },
+        },
+        { provide: AppConfig, useValue: config },
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<ConfigurationService>(ConfigurationService);
+    historyService = module.get<ConfigurationHistoryService>(
+      ConfigurationHistoryService,
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('registration', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    it('should retry failed registrations with exponential backoff', async () => {
+      getConfigFromSidecar
+        .mockRejectedValueOnce(new Error('unavailable'))
+        .mockRejectedValueOnce(new Error('unavailable'));
+
+      await service.heartbeat('svc', 'r1');
+      await service.heartbeat('svc', 'r2');
+      expect(service.findRegistration('svc')).toMatchObject({
+        state: 'pending',
+        attempts: 1,
+        lastError: 'unavailable',
+        queuedReplicaIds: ['r1', 'r2'],
+      });
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(2);
+      // the backoff is doubled for the second retry
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(service.findRegistration('svc')).toMatchObject({
+        state: 'registered',
+        attempts: 3,
+        queuedReplicaIds: [],
+      });
+      expect(service.findService('svc').replicas.map(({ id }) => id)).toEqual([
+        'r1',
+        'r2',
+      ]);
+    });
+
+    it('should fail the registration after the maximum number of attempts', async () => {
+      config.registrationMaxAttempts = 2;
+      getConfigFromSidecar.mockRejectedValue(new Error('unavailable'));
+
+      await service.heartbeat('svc', 'r1');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(service.findRegistration('svc')).toMatchObject({
+        state: 'failed',
+        attempts: 2,
+        lastError: 'unavailable',
+      });
+      expect(() => service.findService('svc')).toThrow(NotFoundException);
+      // no further attempt is scheduled
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restart a failed registration on the next heartbeat', async () => {
+      config.registrationMaxAttempts = 1;
+      getConfigFromSidecar.mockRejectedValueOnce(new Error('unavailable'));
+
+      await service.heartbeat('svc', 'r1');
+      expect(service.findRegistration('svc').state).toBe('failed');
+      await service.heartbeat('svc', 'r1');
+
+      expect(service.findRegistration('svc')).toMatchObject({
+        state: 'registered',
+        attempts: 1,
+      });
+    });
+    it('should cancel the pending registration of a deleted service', async () => {
+      getConfigFromSidecar.mockRejectedValueOnce(new Error('unavailable'));
+      await service.heartbeat('svc', 'r1', { zone: 'a' });
+
+      expect(service.deleteService('svc')).toBe(true);
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(1);
+      expect(() => service.findRegistration('svc')).toThrow(NotFoundException);
+    });
+
+    it('should register a deleted service anew on its next heartbeat', async () => {
+      await service.heartbeat('svc', 'r1');
+      service.deleteService('svc');
+
+      await service.heartbeat('svc', 'r2');
+
+      expect(getConfigFromSidecar).toHaveBeenCalledTimes(2);
+      expect(service.findRegistration('svc')).toMatchObject({
+        state: 'registered',
+        attempts: 1,
+      });
+      expect(service.findService('svc').replicas.map(({ id }) => id)).toEqual([
+        'r2',
+      ]);
+      expect(() => service.deleteService('unknown')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('applyChangeSets', () => {
+    beforeEach(async () => {
+      await service.heartbeat('a', 'a1');
+      await service.heartbeat('b', 'b1');
+      publishConfiguration.mockClear();
+    });
+
+    it('should apply and publish the change sets of all services', () => {
+      service.applyChangeSets(
+        [
+          {
+            serviceName: 'a',
+            globalVariables: [{ key: 'latency', value: 100 }],
+          },
+          {
+            serviceName: 'b',
+            replicas: [
+              {
+                replicaId: 'b1',
+                variables: [{ key: 'errorRate', value: 0.5 }],
+              },
+            ],
+          },
+          {
+            serviceName: 'a',
+            globalVariables: [{ key: 'errorRate', value: 0.1 }],
+          },
+        ],
+        { actor: 'alice' },
+      );
+
+      expect(globalValue('a', 'latency')).toBe(100);
+      expect(globalValue('a', 'errorRate')).toBe(0.1);
+      expect(service.findReplica('b', 'b1').replicaVariables).toEqual([
+        { key: 'errorRate', value: 0.5 },
+      ]);
+      // change sets of the same service are merged into one revision
+      expect(historyService.findAll('a')).toHaveLength(1);
+      expect(historyService.findAll('a')[0].actor).toBe('alice');
+      expect(historyService.findAll('b')).toHaveLength(1);
+      expect(publishConfiguration).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply nothing if a variable of any service is invalid', () => {
+      expect(() =>
+        service.applyChangeSets([
+          {
+            serviceName: 'a',
+            globalVariables: [{ key: 'latency', value: 100 }],
+          },
+          {
+            serviceName: 'b',
+            globalVariables: [{ key: 'errorRate', value: 2 }],
+          },
+        ]),
+      ).toThrow(BadRequestException);
+
+      expect(globalValue('a', 'latency')).toBe(0);
+      expect(historyService.findAll('a')).toHaveLength(0);
+      expect(publishConfiguration).not.toHaveBeenCalled();
+    });
+
+    it('should apply nothing if a replica is not found', () => {
+      expect(() =>
+        service.applyChangeSets([
+          {
+            serviceName: 'a',
+            globalVariables: [{ key: 'latency', value: 100 }],
+          },
+          {
+            serviceName: 'b',
+            replicas: [
+              {
+                replicaId: 'unknown',
+                variables: [{ key: 'latency', value: 1 }],
+              },
+            ],
+          },
+        ]),
+      ).toThrow(NotFoundException);
+
+      expect(globalValue('a', 'latency')).toBe(0);
+      expect(publishConfiguration).not.toHaveBeenCalled();
+    });
+
+    it('should report the errors of every service', () => {
+      let error: BadRequestException | undefined;
+      try {
+        service.applyChangeSets([
+          {
+            serviceName: 'a',
+            globalVariables: [{ key: 'latency', value: -1 }],
+          },
+          { serviceName: 'b', globalVariables: [{ key: 'unknown', value: 1 }] },
+        ]);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(
+        (
+          error?.getResponse() as { errors: { serviceName: string }[] }
+        ).errors.map(({ serviceName }) => serviceName),
+      ).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('constraints', () => {
+    // lets the caught validation error of a call be inspected
+    const catchErrors = (call: () => unknown) => {
+      try {
+        call();
+      } catch (error) {
+        return (error as BadRequestException).getResponse() as {
+          errors: { type: string; constraint?: string; replicaId?: string }[];
+        };
+      }
+      throw new Error('Expected the call to fail');
+    };
+
+    beforeEach(async () => {
+      getConfigFromSidecar.mockResolvedValue({
+        data: {
+          configuration: {
+            minLatency: { type: { type: 'integer' }, defaultValue: 0 },
+            maxLatency: { type: { type: 'integer' }, defaultValue: 100 },
+          },
+          constraints: [
+            {
+              name: 'min-below-max',
+              schema: {
+                type: 'object',
+                properties: {
+                  minLatency: {
+                    type: 'integer',
+                    maximum: { $data: '1/maxLatency' },
+                  },
+                },
+              },
+            },
+            {
+              name: 'violated-by-defaults',
+              schema: {
+                type: 'object',
+                properties: { maxLatency: { type: 'integer', maximum: 10 } },
+              },
+            },
+          ],
+        },
+      });
+      await service.heartbeat('svc', 'r1');
+    });
+
+    it('should reject constraints violated by the default values', () => {
+      expect(service.findService('svc').variableConstraints).toEqual([
+        expect.objectContaining({ name: 'min-below-max' }),
+      ]);
+      expect(service.findRegistration('svc').rejectedDefinitions).toEqual([
+        expect.objectContaining({
+          kind: 'constraint',
+          key: 'violated-by-defaults',
+        }),
+      ]);
+    });
+
+    it('should reject global updates violating a constraint', () => {
+      const response = catchErrors(() =>
+        service.applyChangeSets([
+          {
+            serviceName: 'svc',
+            globalVariables: [{ key: 'minLatency', value: 200 }],
+          },
+        ]),
+      );
+
+      expect(response.errors).toEqual([
+        expect.objectContaining({
+          type: 'constraint-violation',
+          constraint: 'min-below-max',
+        }),
+      ]);
+      expect(globalValue('svc', 'minLatency')).toBe(0);
+    });
+
+    it('should evaluate the constraints on the resulting configuration', () => {
+      service.applyChangeSets([
+        {
+          serviceName: 'svc',
+          globalVariables: [
+            { key: 'minLatency', value: 200 },
+            { key: 'maxLatency', value: 300 },
+          ],
+        },
+      ]);
+
+      expect(globalValue('svc', 'minLatency')).toBe(200);
+    });
+
+    it('should check the effective variables of replicas with overrides', () => {
+      service.applyChangeSets([
+        {
+          serviceName: 'svc',
+          replicas: [
+            { replicaId: 'r1', variables: [{ key: 'minLatency', value: 80 }] },
+          ],
+        },
+      ]);
+
+      // valid for the global variables, but not for the overrides of the replica
+      const response = catchErrors(() =>
+        service.applyChangeSets([
+          {
+            serviceName: 'svc',
+            globalVariables: [{ key: 'maxLatency', value: 50 }],
+          },
+        ]),
+      );
+
+      expect(response.errors).toEqual([
+        expect.objectContaining({
+          type: 'constraint-violation',
+          replicaId: 'r1',
+        }),
+      ]);
+    });
+  });
+
+  describe('reset', () => {
+    beforeEach(async () => {
+      await service.heartbeat('a', 'a1');
+      await service.heartbeat('a', 'a2');
+      await service.heartbeat('b', 'b1');
+      service.applyChangeSets([
+        {
+          serviceName: 'a',
+          globalVariables: [{ key: 'latency', value: 100 }],
+          replicas: [
+            {
+              replicaId: 'a1',
+              variables: [
+                { key: 'latency', value: 200 },
+                { key: 'errorRate', value: 0.5 },
+              ],
+            },
+          ],
+        },
+      ]);
+      publishConfiguration.mockClear();
+    });
+
+    it('should reset a variable and remove its overrides', () => {
+      const revisions = service.resetVariable('a', 'latency', {
+        actor: 'alice',
+      });
+
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({
+        serviceName: 'a',
+        actor: 'alice',
+        reason: 'Reset to defaults',
+      });
+      expect(revisions[0].changes).toEqual([
+        { scope: 'global', key: 'latency', oldValue: 100, newValue: 0 },
+        expect.objectContaining({
+          scope: 'replica',
+          replicaId: 'a1',
+          key: 'latency',
+          oldValue: 200,
+        }),
+      ]);
+      expect(globalValue('a', 'latency')).toBe(0);
+      expect(service.findReplica('a', 'a1').replicaVariables).toEqual([
+        { key: 'errorRate', value: 0.5 },
+      ]);
+      expect(publishConfiguration).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reset the overrides of a replica only', () => {
+      const [revision] = service.resetReplica('a', 'a1');
+
+      expect(revision.changes.map(({ scope, key }) => [scope, key])).toEqual([
+        ['replica', 'latency'],
+        ['replica', 'errorRate'],
+      ]);
+      expect(service.findReplica('a', 'a1').replicaVariables).toEqual([]);
+      expect(globalValue('a', 'latency')).toBe(100);
+    });
+
+    it('should reset all services that deviate from their defaults', () => {
+      const revisions = service.resetAll();
+
+      expect(revisions.map(({ serviceName }) => serviceName)).toEqual(['a']);
+      expect(globalValue('a', 'latency')).toBe(0);
+      expect(service.findReplica('a', 'a1').replicaVariables).toEqual([]);
+      expect(publishConfiguration).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record and publish nothing if nothing changed', () => {
+      expect(service.resetService('b')).toEqual([]);
+      expect(service.resetReplica('a', 'a2')).toEqual([]);
+      service.resetService('a');
+
+      expect(service.resetAll()).toEqual([]);
+      expect(historyService.findAll('a')).toHaveLength(2);
+      expect(publishConfiguration).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown variables and replicas', () => {
+      expect(() => service.resetVariable('a', 'unknown')).toThrow(
+        NotFoundException,
+      );
+      expect(() => service.resetReplica('a', 'unknown')).toThrow(
+        NotFoundException,
+      );
+      expect(() => service.resetService('unknown')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteReplica', () => {
+    it('should keep only the most recent tombstones', async () => {
+      config.replicaMaxTombstones = 2;
+      for (const replicaId of ['r1', 'r2', 'r3', 'r4']) {
+        await service.heartbeat('svc', replicaId);
+      }
+
+      ['r1', 'r2', 'r3'].forEach((replicaId) =>
+        service.deleteReplica('svc', replicaId, true),
+      );
+
+      expect(
+        service.findService('svc').removedReplicas?.map(({ id }) => id),
+      ).toEqual(['r2', 'r3']);
+    });
+  });
 });
@@ -4,116 +4,347 @@ import {
   Injectable,
   Logger,
   NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
   forwardRef,
 } from '@nestjs/common';
 import { ServiceConfigurationRepository } from './configuration.repository';
 import {
   ConfigurationVariable,
+  ConfigurationVariableDefinition,
+  ReplicaMetadata,
   ServiceConfiguration,
   ServiceReplica,
+  VariableConstraint,
 } from './entities/service-configuration.entity';
 import { ConnectorService } from './connector.service';
 import { EventService } from 'src/event/events.service';
-import Ajv, { JSONSchemaType } from 'ajv';
+import { JSONSchemaType } from 'ajv';
 import { VariableDefinitionsDto } from './dto/variable-definitions.dto';
 import { AxiosResponse } from 'axios';
+import { ConfigurationHistoryService } from './configuration-history.service';
+import { ConfigurationSeedService } from './configuration-seed.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { AppConfig } from 'src/app-config/app-config';
+import {
+  ChangeContext,
+  ConfigurationRevision,
+  VariableChange,
+} from './entities/configuration-revision.entity';
+import { VariableChangeSet } from './entities/variable-change-set.entity';
+import { ConfigurationChangeEvent } from './entities/configuration-change-event.entity';
+import { Observable, Subject, filter } from 'rxjs';
+import { ServiceRegistration } from './entities/service-registration.entity';
+import {
+  VariableValidationError,
+  VariableValidationResult,
+} from './entities/variable-validation.entity';
+import {
+  DefinitionSyncReport,
+  RemovedDefinitionMode,
+} from './entities/definition-sync-report.entity';
+import { VariableValidatorService } from './variable-validator.service';
+import {
+  ReplicaTarget,
+  TargetedUpdateResult,
+} from './entities/replica-target.entity';
+import { selectReplicas } from './replica-selector';
+
+/**
+ * View on the variables of a replica.
+ * effective - the values in effect, the replica override if one exists, the global value otherwise.
+ * overrides - the explicit replica overrides only.
+ */
+export type ReplicaVariableView = 'effective' | 'overrides';
 
 /**
  * Service for handling configurations.
  */
 @Injectable()
-export class ConfigurationService {
-  // in-memory repository for service configurations
-  private readonly serviceRepository: ServiceConfigurationRepository;
-  // ajv instance for validating variables
-  private ajv: any = new Ajv();
-  // simple mutex to avoid issues from multiple heartbeats. Works since there will be only one experiment config service.
-  private mutex: any = {};
+export class ConfigurationService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  // stream of configuration change events
+  private readonly changeEvents = new Subject<ConfigurationChangeEvent>();
+  // registrations of services by name, replaces a simple mutex to avoid issues from multiple heartbeats.
+  // Works since there will be only one experiment config service.
+  private readonly registrations: Map<string, ServiceRegistration> = new Map();
+  // pending registration retries by service name
+  private readonly retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  // metadata of the replicas queued during a registration, by service name and replica ID
+  private readonly queuedMetadata: Map<string, Map<string, ReplicaMetadata>> =
+    new Map();
 
   constructor(
+    // repository for service configurations, the backend is selected at startup
+    private readonly serviceRepository: ServiceConfigurationRepository,
     private readonly connectorService: ConnectorService,
+    private readonly historyService: ConfigurationHistoryService,
+    private readonly validatorService: VariableValidatorService,
+    private readonly seedService: ConfigurationSeedService,
+    private readonly metricsService: MetricsService,
+    private readonly config: AppConfig,
     // use forward reference to avoid circular dependency
     @Inject(forwardRef(() => EventService))
     private readonly eventService: EventService,
     private readonly logger: Logger,
-  ) {
-    this.serviceRepository = new ServiceConfigurationRepository();
+  ) {}
+
+  /**
+   * Re-publishes the configurations restored from the repository, so the sidecars
+   * receive the stored configuration instead of their defaults after a restart.
+   */
+  onApplicationBootstrap() {
+    this.findAllServices().forEach((service) => {
+      // give restored replicas a full heartbeat TTL to report back before they are reaped
+      service.replicas.forEach((replica) => (replica.lastSeen = new Date()));
+      this.logger.log(
+        `Re-publishing restored configuration of ${service.name}`,
+      );
+      this.eventService.publishConfiguration(service.name, service.replicas);
+    });
+  }
+
+  onModuleDestroy() {
+    this.retryTimers.forEach(clearTimeout);
   }
 
   /**
    * Updates the heartbeat of a service replica.
-   * If the service or replica does not exist, it adds a new service with the given name and replica ID.
-   * If the service is currently being added, the heartbeat is ignored.
+   * If the service does not exist, its registration is started.
+   * While the service is being registered, the replica is queued and added once the registration succeeded.
+   * If the replica does not exist, it is added to the service.
+   * Metadata sent with the heartbeat replaces the stored metadata of the replica,
+   * the latest metadata of replicas queued during the registration is stored once they are added.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
+   * @param metadata - Optional metadata of the replica.
    */
-  heartbeat(serviceName: string, replicaId: string) {
-    if (this.mutex[serviceName]) {
-      return;
-    }
+  heartbeat(
+    serviceName: string,
+    replicaId: string,
+    metadata?: ReplicaMetadata,
+  ) {
     if (!this.serviceRepository.exists(serviceName)) {
-      return this.handleFirstHeartbeat(serviceName, replicaId);
+      return this.handleUnregisteredHeartbeat(serviceName, replicaId, metadata);
     }
     const service = this.findService(serviceName);
     const replica = service.replicas.find(
       (replica) => replica.id === replicaId,
     );
     if (!replica) {
-      return this.addReplica(serviceName, replicaId);
+      return this.addReplica(serviceName, replicaId, metadata);
     }
     // update last seen
     replica.lastSeen = new Date();
+    replica.liveness = 'healthy';
+    if (
+      metadata &&
+      JSON.stringify(metadata) !== JSON.stringify(replica.metadata)
+    ) {
+      replica.metadata = metadata;
+      this.serviceRepository.update(serviceName, service);
+    }
   }
 
   /**
-   * Handles the first heartbeat of a service.
+   * Handles a heartbeat of a service that is not registered yet.
+   * Starts the registration, unless it is already in progress, and queues the replica with its metadata.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
+   * @param metadata - Optional metadata of the replica.
    */
-  async handleFirstHeartbeat(serviceName: string, replicaId: string) {
-    this.mutex[serviceName] = true;
-    this.logger.log(`Service ${serviceName} not found, adding new service`);
+  handleUnregisteredHeartbeat(
+    serviceName: string,
+    replicaId: string,
+    metadata?: ReplicaMetadata,
+  ) {
+    const registration = this.registrations.get(serviceName);
+    if (registration && registration.state !== 'failed') {
+      if (!registration.queuedReplicaIds.includes(replicaId)) {
+        registration.queuedReplicaIds.push(replicaId);
+      }
+      if (metadata) {
+        this.queuedMetadata.get(serviceName)?.set(replicaId, metadata);
+      }
+      return;
+    }
+    this.logger.log(`Service ${serviceName} not found, registering service`);
+    this.queuedMetadata.set(
+      serviceName,
+      new Map(metadata ? [[replicaId, metadata]] : []),
+    );
+    this.registrations.set(serviceName, {
+      serviceName,
+      state: 'pending',
+      attempts: 0,
+      queuedReplicaIds: [replicaId],
+      updatedAt: new Date(),
+    });
+    return this.attemptRegistration(serviceName);
+  }
+
+  /**
+   * Attempts to register a service by fetching its variable definitions from the sidecar.
+   * Failed attempts are retried with exponential backoff until the maximum number of attempts is reached.
+   * @param serviceName - The name of the service.
+   */
+  async attemptRegistration(serviceName: string) {
+    const registration = this.registrations.get(serviceName);
+    if (!registration) {
+      return;
+    }
+    this.retryTimers.delete(serviceName);
+    this.updateRegistration(registration, {
+      state: 'fetching-definitions',
+      attempts: registration.attempts + 1,
+      nextAttemptAt: undefined,
+    });
+    const [initialReplicaId] = registration.queuedReplicaIds;
     try {
-      return this.addService(serviceName, replicaId);
+      await this.addService(
+        serviceName,
+        initialReplicaId,
+        this.queuedMetadata.get(serviceName)?.get(initialReplicaId),
+      );
     } catch (error) {
-      this.logger.error(`{heartbeat} ${error.message}`);
-      this.mutex[serviceName] = false;
+      this.logger.error(
+        `{attemptRegistration} Attempt ${registration.attempts} to register ${serviceName} failed: ${error.message}`,
+      );
+      if (registration.attempts >= this.config.registrationMaxAttempts) {
+        this.updateRegistration(registration, {
+          state: 'failed',
+          lastError: error.message,
+        });
+        this.metricsService.recordRegistration('failed');
+        this.queuedMetadata.delete(serviceName);
+        return;
+      }
+      const backoff = Math.min(
+        // the backoff is doubled for each further retry
+        this.config.registrationBackoffMs * 2 ** (registration.attempts - 1),
+        this.config.registrationMaxBackoffMs,
+      );
+      this.updateRegistration(registration, {
+        state: 'pending',
+        lastError: error.message,
+        nextAttemptAt: new Date(Date.now() + backoff),
+      });
+      this.retryTimers.set(
+        serviceName,
+        setTimeout(() => this.attemptRegistration(serviceName), backoff),
+      );
       return;
     }
+    const queuedReplicaIds = registration.queuedReplicaIds.filter(
+      (replicaId) => replicaId !== initialReplicaId,
+    );
+    const queuedMetadata = this.queuedMetadata.get(serviceName);
+    this.queuedMetadata.delete(serviceName);
+    this.updateRegistration(registration, {
+      state: 'registered',
+      queuedReplicaIds: [],
+    });
+    this.metricsService.recordRegistration('registered');
+    // add the replicas that sent heartbeats during the registration
+    queuedReplicaIds.forEach((replicaId) =>
+      this.heartbeat(serviceName, replicaId, queuedMetadata?.get(replicaId)),
+    );
+  }
+
+  /**
+   * Updates a registration and its update time.
+   * @param registration - The registration.
+   * @param update - The updated properties.
+   */
+  private updateRegistration(
+    registration: ServiceRegistration,
+    update: Partial<ServiceRegistration>,
+  ) {
+    Object.assign(registration, update, { updatedAt: new Date() });
+  }
+
+  /**
+   * Retrieves the registrations of all services.
+   * Services restored from the repository are reported as registered.
+   * @returns The registrations.
+   */
+  findAllRegistrations(): ServiceRegistration[] {
+    const restored = this.findAllServiceNames()
+      .filter((serviceName) => !this.registrations.has(serviceName))
+      .map((serviceName) => this.findRegistration(serviceName));
+    return [...this.registrations.values(), ...restored];
+  }
+
+  /**
+   * Retrieves the registration of a service.
+   * @param serviceName - The name of the service.
+   * @returns The registration.
+   * @throws NotFoundException if the service never sent a heartbeat.
+   */
+  findRegistration(serviceName: string): ServiceRegistration {
+    const registration = this.registrations.get(serviceName);
+    if (registration) {
+      return registration;
+    }
+    if (this.serviceRepository.exists(serviceName)) {
+      return {
+        serviceName,
+        state: 'registered',
+        attempts: 0,
+        queuedReplicaIds: [],
+        updatedAt: new Date(),
+      };
+    }
+    throw new NotFoundException(`Registration of '${serviceName}' not found`);
   }
 
   /**
    * Adds a new service with the given name and initial replica ID.
    * @param serviceName - The name of the service.
    * @param initialReplicaId - The ID of the initial replica.
+   * @param metadata - Optional metadata of the initial replica.
    * @returns The created service configuration.
+   * @throws Error if the variable definitions can not be fetched from the sidecar.
    */
-  async addService(serviceName: string, initialReplicaId: string) {
+  async addService(
+    serviceName: string,
+    initialReplicaId: string,
+    metadata?: ReplicaMetadata,
+  ): Promise<ServiceConfiguration> {
     this.logger.log(
       `Adding service ${serviceName} with replica ${initialReplicaId}`,
     );
-    try {
-      const { data }: AxiosResponse<VariableDefinitionsDto> =
-        await this.connectorService.getConfigFromSidecar(serviceName);
-      const { configuration } = data;
-      this.logger.log(
-        `Received variable definitions for service ${serviceName}: ${JSON.stringify(data)}`,
+    const { data }: AxiosResponse<VariableDefinitionsDto> =
+      await this.connectorService.getConfigFromSidecar(serviceName);
+    if (!data?.configuration) {
+      throw new Error(
+        `Sidecar of ${serviceName} returned no variable definitions`,
       );
-      this.buildServiceConfiguration(
-        serviceName,
-        initialReplicaId,
-        configuration,
-      );
-    } catch (error) {
-      this.logger.error(`{addService} ${error.message}`);
     }
+    this.logger.log(
+      `Received variable definitions for service ${serviceName}: ${JSON.stringify(data)}`,
+    );
+    return this.buildServiceConfiguration(
+      serviceName,
+      initialReplicaId,
+      data.configuration,
+      data.constraints,
+      metadata,
+    );
   }
 
   /**
    * Adds the global variables and queries variable definitions from the sidecar.
-   * Is called directly after the first heartbeat of a service and due to the mutex, there can only be one replica.
-   * @param service - The service configuration.
-   * @returns The updated service configuration.
+   * Is called during the registration of a service, further replicas are added once it is registered.
+   * Definitions with an invalid schema or default value and invalid constraints are rejected,
+   * logged and recorded in the registration of the service.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the initial replica.
+   * @param configuration - The variable definitions as returned by the sidecar.
+   * @param constraints - The cross-variable constraints as returned by the sidecar.
+   * @param metadata - Optional metadata of the initial replica.
+   * @returns The created service configuration.
    */
   async buildServiceConfiguration(
     serviceName: string,
@@ -125,24 +356,43 @@ export class ConfigurationService {
         defaultValue: any;
       }
     >,
+    constraints: VariableConstraint[] = [],
+    metadata?: ReplicaMetadata,
   ): Promise<ServiceConfiguration> {
+    const { definitions, rejected } = this.validatorService.checkDefinitions(
+      serviceName,
+      { configuration, constraints },
+    );
+    rejected.forEach(({ kind, key, reason }) =>
+      this.logger.warn(
+        `Rejected ${kind} definition ${key} of service ${serviceName}: ${reason}`,
+      ),
+    );
+    const registration = this.registrations.get(serviceName);
+    if (registration) {
+      this.updateRegistration(registration, { rejectedDefinitions: rejected });
+    }
     const service: ServiceConfiguration = {
       name: serviceName,
-      replicas: [{ id: replicaId, replicaVariables: [] }],
+      replicas: [
+        {
+          id: replicaId,
+          replicaVariables: [],
+          lastSeen: new Date(),
+          liveness: 'healthy',
+          metadata,
+        },
+      ],
       globalVariables: [],
       variableDefinitions: [],
+      variableConstraints: definitions.constraints,
     };
     // iterate over variable definitions and initialise variables and definitions
-    Object.entries(configuration).forEach(([key, value]) => {
+    Object.entries(definitions.configuration).forEach(([key, value]) => {
       service.globalVariables.push({
         key: key,
         value: value.defaultValue,
       });
-      // set default values for original replica too
-      service.replicas[0].replicaVariables.push({
-        key: key,
-        value: value.defaultValue,
-      });
       service.variableDefinitions.push({
         key: key,
         type: value.type,
@@ -151,32 +401,117 @@ export class ConfigurationService {
     });
 
     this.serviceRepository.create(service);
-    this.mutex[serviceName] = false;
+    this.emitChange({ type: 'service-registered', serviceName });
+    this.applySeed(service);
     return service;
   }
 
+  /**
+   * Applies the seeded global variables and replica overrides to a newly registered service.
+   * Seeded values that do not match the variable definitions are skipped and logged.
+   * @param service - The service configuration.
+   */
+  private applySeed(service: ServiceConfiguration) {
+    const seed = this.seedService.findServiceSeed(service.name);
+    if (!seed) {
+      return;
+    }
+    const errors: VariableValidationError[] = [];
+    // keeps only the variables without validation errors
+    const validVariables = (
+      variables: ConfigurationVariable[],
+      replicaId?: string,
+    ) => {
+      const variableErrors = this.collectValidationErrors(
+        variables,
+        service.name,
+        replicaId,
+      );
+      errors.push(...variableErrors);
+      return variables.filter(
+        (variable) => !variableErrors.some(({ key }) => key === variable.key),
+      );
+    };
+    const changeSet: VariableChangeSet = {
+      serviceName: service.name,
+      globalVariables: validVariables(seed.globalVariables ?? []),
+      replicas: (seed.replicas ?? [])
+        .filter((replicaSeed) =>
+          service.replicas.some(({ id }) => id === replicaSeed.id),
+        )
+        .map((replicaSeed) => ({
+          replicaId: replicaSeed.id,
+          variables: validVariables(replicaSeed.variables, replicaSeed.id),
+        })),
+    };
+    errors.forEach((error) =>
+      this.logger.warn(
+        `Skipping seed value of service ${service.name}: ${error.message}`,
+      ),
+    );
+    // the remaining values are only applied as a whole if they satisfy the constraints
+    const constraintErrors = this.collectConstraintErrors(service, changeSet);
+    if (constraintErrors.length > 0) {
+      constraintErrors.forEach((error) =>
+        this.logger.warn(
+          `Skipping seed of service ${service.name}: ${error.message}`,
+        ),
+      );
+      return;
+    }
+    const changes = this.updateServiceVariables(
+      service,
+      changeSet.globalVariables ?? [],
+    );
+    (changeSet.replicas ?? []).forEach((update) => {
+      const replica = service.replicas.find(
+        ({ id }) => id === update.replicaId,
+      );
+      if (replica) {
+        changes.push(...this.updateReplicaVariables(replica, update.variables));
+      }
+    });
+    this.commitChanges(service, changes, {
+      actor: 'seed',
+      reason: `Seed from ${this.seedService.getSeedFile()}`,
+    });
+    this.eventService.publishConfiguration(service.name, service.replicas);
+  }
+
   /**
    * Adds a new replica to a service configuration.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
+   * @param metadata - Optional metadata of the replica.
    * @returns The updated service configuration.
    * @throws NotFoundException if the service is not found.
    */
-  addReplica(serviceName: string, replicaId: string): ServiceConfiguration {
+  addReplica(
+    serviceName: string,
+    replicaId: string,
+    metadata?: ReplicaMetadata,
+  ): ServiceConfiguration {
     const service = this.findService(serviceName);
     this.logger.log(`Adding replica ${replicaId} to service ${serviceName}`);
     if (!service) {
       throw new NotFoundException(`Service '${serviceName}' not found`);
     }
 
-    // initialise replica with global variables
-    const variables: ConfigurationVariable[] = service.globalVariables;
+    // new replicas have no overrides and use the global variables
     const replica: ServiceReplica = {
       id: replicaId,
-      replicaVariables: variables,
+      replicaVariables: [],
       lastSeen: new Date(),
+      liveness: 'healthy',
+      metadata,
     };
     service.replicas.push(replica);
+    // a returning replica is no longer removed
+    service.removedReplicas = service.removedReplicas?.filter(
+      (tombstone) => tombstone.id !== replicaId,
+    );
+    this.serviceRepository.update(serviceName, service);
+    this.emitChange({ type: 'replica-added', serviceName, replicaId });
     // send updated configuration to sidecar
     this.eventService.publishConfiguration(serviceName, [replica]);
     return service;
@@ -251,25 +586,83 @@ export class ConfigurationService {
     return replica;
   }
 
+  /**
+   * Retrieves the replicas of a service selected by their metadata.
+   * @param serviceName - The name of the service.
+   * @param target - The label selector and the optional percentage or count of replicas.
+   * @returns The selected replicas.
+   * @throws NotFoundException if the service is not found.
+   * @throws BadRequestException if the selector is invalid.
+   */
+  findReplicas(serviceName: string, target: ReplicaTarget): ServiceReplica[] {
+    return selectReplicas(this.findService(serviceName).replicas, target);
+  }
+
+  /**
+   * Computes the effective variables of a replica.
+   * The effective value of a variable is the replica override if one exists, the global value otherwise.
+   * @param service - The service configuration.
+   * @param replica - The replica.
+   * @returns The effective variables of the replica.
+   */
+  getEffectiveVariables(
+    service: ServiceConfiguration,
+    replica: ServiceReplica,
+  ): ConfigurationVariable[] {
+    return service.globalVariables.map((variable) => {
+      const override = replica.replicaVariables.find(
+        (replicaVariable) => replicaVariable.key === variable.key,
+      );
+      return { key: variable.key, value: (override ?? variable).value };
+    });
+  }
+
+  /**
+   * Retrieves the variables of a replica.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param view - `effective` for the values in effect, `overrides` for the explicit replica overrides only.
+   * @returns The variables of the replica.
+   * @throws NotFoundException if the service or replica is not found.
+   */
+  getReplicaVariables(
+    serviceName: string,
+    replicaId: string,
+    view: ReplicaVariableView = 'effective',
+  ): ConfigurationVariable[] {
+    const replica = this.findReplica(serviceName, replicaId);
+    if (view === 'overrides') {
+      return replica.replicaVariables;
+    }
+    return this.getEffectiveVariables(this.findService(serviceName), replica);
+  }
+
   /**
    * Retrieves a specific replica configuration variable by name.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
    * @param variableKey - The key of the variable.
+   * @param view - `effective` for the value in effect, `overrides` for the explicit replica override only.
    * @returns The variable.
-   * @throws NotFoundException if the service or replica is not found.
+   * @throws NotFoundException if the service, replica or variable (override) is not found.
    */
   getReplicaVariable(
     serviceName: string,
     replicaId: string,
     variableKey: string,
+    view: ReplicaVariableView = 'effective',
   ): ConfigurationVariable {
-    const replica = this.findReplica(serviceName, replicaId);
-    const variable = replica.replicaVariables.find(
-      (variable) => variable.key === variableKey,
-    );
+    const variable = this.getReplicaVariables(
+      serviceName,
+      replicaId,
+      view,
+    ).find((variable) => variable.key === variableKey);
     if (!variable) {
-      throw new NotFoundException(`Variable '${variableKey}' not found`);
+      throw new NotFoundException(
+        view === 'overrides'
+          ? `Replica '${replicaId}' has no override for variable '${variableKey}'`
+          : `Variable '${variableKey}' not found`,
+      );
     }
     return variable;
   }
@@ -278,12 +671,14 @@ export class ConfigurationService {
    * Updates multiple global configuration variable.
    * @param serviceName - The name of the service.
    * @param variables - The updated variables.
+   * @param context - Optional actor and reason recorded in the change history.
    * @returns The updated service configuration.
    * @throws NotFoundException if the service is not found.
    */
   batchAddOrUpdateServiceVariables(
     serviceName: string,
     variables: ConfigurationVariable[],
+    context: ChangeContext = {},
   ): ServiceConfiguration {
     const service = this.findService(serviceName);
     if (!service) {
@@ -294,9 +689,15 @@ export class ConfigurationService {
     }
     try {
       this.validateVariables(variables, serviceName);
+      this.throwOnValidationErrors(
+        this.collectConstraintErrors(service, {
+          serviceName,
+          globalVariables: variables,
+        }),
+      );
       // update global variables
-      this.updateServiceVariables(service, variables);
-      this.serviceRepository.update(serviceName, service);
+      const changes = this.updateServiceVariables(service, variables);
+      this.commitChanges(service, changes, context);
       // send updated configuration to sidecar
       this.eventService.publishConfiguration(serviceName, service.replicas);
       return service;
@@ -310,23 +711,29 @@ export class ConfigurationService {
    * Finds and updates multiple global configuration variables.
    * @param service - The service configuration.
    * @param variables - The updated variables.
+   * Replica overrides are kept, so replicas without an override follow the global value.
+   * @returns The changes of the global variables.
    */
   updateServiceVariables(
     service: ServiceConfiguration,
     variables: ConfigurationVariable[],
-  ) {
+  ): VariableChange[] {
+    const changes: VariableChange[] = [];
     service.globalVariables.forEach((variable) => {
       const updated = variables.find(
         (updatedVariable) => updatedVariable.key === variable.key,
       );
       if (updated) {
+        changes.push({
+          scope: 'global',
+          key: variable.key,
+          oldValue: variable.value,
+          newValue: updated.value,
+        });
         variable.value = updated.value;
       }
     });
-    // update all replicas with new global variables
-    service.replicas.forEach((replica) => {
-      replica.replicaVariables = structuredClone(service.globalVariables);
-    });
+    return changes;
   }
 
   /**
@@ -334,6 +741,7 @@ export class ConfigurationService {
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
    * @param variables - The updated variables.
+   * @param context - Optional actor and reason recorded in the change history.
    * @returns The updated service configuration.
    * @throws NotFoundException if the service or replica is not found.
    */
@@ -341,6 +749,7 @@ export class ConfigurationService {
     serviceName: string,
     replicaId: string,
     variables: ConfigurationVariable[],
+    context: ChangeContext = {},
   ): ServiceConfiguration {
     try {
       const service = this.findService(serviceName);
@@ -350,9 +759,15 @@ export class ConfigurationService {
       if (!replica) {
         throw new NotFoundException(`Replica '${replicaId}' not found`);
       }
-      this.validateVariables(variables, serviceName);
-      this.updateReplicaVariables(replica.replicaVariables, variables);
-      this.serviceRepository.update(serviceName, service);
+      this.validateVariables(variables, serviceName, replicaId);
+      this.throwOnValidationErrors(
+        this.collectConstraintErrors(service, {
+          serviceName,
+          replicas: [{ replicaId, variables }],
+        }),
+      );
+      const changes = this.updateReplicaVariables(replica, variables);
+      this.commitChanges(service, changes, context);
       // send updated configuration to sidecar
       this.eventService.publishConfiguration(serviceName, [replica]);
       return service;
@@ -363,87 +778,1017 @@ export class ConfigurationService {
   }
 
   /**
-   * Finds and updates multiple replica configuration variables.
-   * @param replicaVariables - The replica variables to update.
+   * Adds or updates overrides of all replicas selected by their metadata as a whole.
+   * @param serviceName - The name of the service.
+   * @param target - The label selector and the optional percentage or count of replicas.
+   * @param variables - The updated variables.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The IDs of the updated replicas and the updated service configuration.
+   * @throws NotFoundException if the service is not found or no replica is selected.
+   * @throws BadRequestException if the selector is invalid or a variable does not match its definition.
+   */
+  batchAddOrUpdateSelectedReplicaVariables(
+    serviceName: string,
+    target: ReplicaTarget,
+    variables: ConfigurationVariable[],
+    context: ChangeContext = {},
+  ): TargetedUpdateResult {
+    const replicas = this.findReplicas(serviceName, target);
+    if (replicas.length === 0) {
+      this.logger.error(
+        `{batchAddOrUpdateSelectedReplicaVariables} No replica of service ${serviceName} selected`,
+      );
+      throw new NotFoundException(
+        `No replica of service '${serviceName}' matches the selection`,
+      );
+    }
+    const [configuration] = this.applyChangeSets(
+      [
+        {
+          serviceName,
+          replicas: replicas.map((replica) => ({
+            replicaId: replica.id,
+            variables,
+          })),
+        },
+      ],
+      context,
+    );
+    return { replicaIds: replicas.map((replica) => replica.id), configuration };
+  }
+
+  /**
+   * Adds or updates multiple replica overrides.
+   * @param replica - The replica to update.
    * @param variables - The updated variables.
+   * @returns The changes of the replica overrides, undefined old values mark new overrides.
    */
   updateReplicaVariables(
-    replicaVariables: ConfigurationVariable[],
+    replica: ServiceReplica,
     variables: ConfigurationVariable[],
-  ) {
-    replicaVariables.forEach((variable) => {
-      const updated = variables.find(
-        (updatedVariable) => updatedVariable.key === variable.key,
+  ): VariableChange[] {
+    return variables.map((updated) => {
+      const override = replica.replicaVariables.find(
+        (variable) => variable.key === updated.key,
       );
-      if (updated) {
-        variable.value = updated.value;
+      const change: VariableChange = {
+        scope: 'replica',
+        replicaId: replica.id,
+        key: updated.key,
+        oldValue: override?.value,
+        newValue: updated.value,
+      };
+      if (override) {
+        override.value = updated.value;
+      } else {
+        replica.replicaVariables.push({
+          key: updated.key,
+          value: updated.value,
+        });
       }
+      return change;
     });
   }
 
+  /**
+   * Removes replica overrides, so the replica falls back to the global values.
+   * @param replica - The replica to update.
+   * @param keys - The keys of the overrides to remove.
+   * @returns The changes of the replica overrides, undefined new values mark removed overrides.
+   */
+  removeReplicaOverrides(
+    replica: ServiceReplica,
+    keys: string[],
+  ): VariableChange[] {
+    const removed = replica.replicaVariables.filter((variable) =>
+      keys.includes(variable.key),
+    );
+    replica.replicaVariables = replica.replicaVariables.filter(
+      (variable) => !keys.includes(variable.key),
+    );
+    return removed.map((variable) => ({
+      scope: 'replica',
+      replicaId: replica.id,
+      key: variable.key,
+      oldValue: variable.value,
+      newValue: undefined,
+    }));
+  }
+
+  /**
+   * Removes the override of a replica variable, so the replica falls back to the global value.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param variableKey - The key of the variable.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The updated service configuration.
+   * @throws NotFoundException if the service, replica or override is not found.
+   */
+  deleteReplicaOverride(
+    serviceName: string,
+    replicaId: string,
+    variableKey: string,
+    context: ChangeContext = {},
+  ): ServiceConfiguration {
+    // fails if there is no override
+    this.getReplicaVariable(serviceName, replicaId, variableKey, 'overrides');
+    const [updated] = this.applyChangeSets(
+      [
+        {
+          serviceName,
+          replicas: [
+            { replicaId, variables: [], clearedOverrides: [variableKey] },
+          ],
+        },
+      ],
+      context,
+    );
+    return updated;
+  }
+
+  /**
+   * Rolls a service back to the state right after the given revision.
+   * All changes of newer revisions are reverted, changes of removed replicas are skipped.
+   * The rollback itself is recorded as a new revision.
+   * @param serviceName - The name of the service.
+   * @param revision - The revision to roll back to, 0 to revert all recorded changes.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The updated service configuration.
+   * @throws NotFoundException if the service or revision is not found.
+   */
+  rollbackService(
+    serviceName: string,
+    revision: number,
+    context: ChangeContext = {},
+  ): ServiceConfiguration {
+    const service = this.findService(serviceName);
+    if (revision !== 0) {
+      this.historyService.findOne(serviceName, revision);
+    }
+    // the oldest change after the target revision holds the value to restore
+    const globalTargets = new Map<string, any>();
+    const replicaTargets = new Map<string, Map<string, any>>();
+    this.historyService
+      .findAfter(serviceName, revision)
+      .flatMap((newerRevision) => newerRevision.changes)
+      .forEach((change) => {
+        if (change.scope === 'global') {
+          if (!globalTargets.has(change.key)) {
+            globalTargets.set(change.key, change.oldValue);
+          }
+        } else if (change.replicaId) {
+          const targets = replicaTargets.get(change.replicaId) ?? new Map();
+          if (!targets.has(change.key)) {
+            targets.set(change.key, change.oldValue);
+          }
+          replicaTargets.set(change.replicaId, targets);
+        }
+      });
+    // an undefined replica value means that there was no override
+    const toVariables = (targets: Map<string, any>): ConfigurationVariable[] =>
+      Array.from(targets.entries())
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({ key, value }));
+    const toClearedOverrides = (targets: Map<string, any>): string[] =>
+      Array.from(targets.entries())
+        .filter(([, value]) => value === undefined)
+        .map(([key]) => key);
+
+    const changeSet: VariableChangeSet = {
+      serviceName,
+      globalVariables: toVariables(globalTargets),
+      replicas: service.replicas
+        .filter((replica) => replicaTargets.has(replica.id))
+        .map((replica) => {
+          const targets = replicaTargets.get(replica.id) ?? new Map();
+          return {
+            replicaId: replica.id,
+            variables: toVariables(targets),
+            clearedOverrides: toClearedOverrides(targets),
+          };
+        }),
+    };
+    const [updated] = this.applyChangeSets([changeSet], {
+      actor: context.actor,
+      reason: context.reason ?? `Rollback to revision ${revision}`,
+    });
+    return updated;
+  }
+
+  /**
+   * Resets a variable to the default value of its definition and removes its overrides from all replicas.
+   * @param serviceName - The name of the service.
+   * @param variableKey - The key of the variable.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The recorded revision listing the values that changed, empty if nothing changed.
+   * @throws NotFoundException if the service or variable definition is not found.
+   * @throws BadRequestException if the default value violates a constraint.
+   */
+  resetVariable(
+    serviceName: string,
+    variableKey: string,
+    context: ChangeContext = {},
+  ): ConfigurationRevision[] {
+    const service = this.findService(serviceName);
+    if (!service.variableDefinitions.some(({ key }) => key === variableKey)) {
+      throw new NotFoundException(
+        `Variable definition not found for ${variableKey}`,
+      );
+    }
+    return this.applyReset(
+      [this.buildResetChangeSet(service, { keys: [variableKey] })],
+      context,
+    );
+  }
+
+  /**
+   * Resets a replica by removing all of its overrides, so it falls back to the global values.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The recorded revision listing the removed overrides, empty if the replica had none.
+   * @throws NotFoundException if the service or replica is not found.
+   * @throws BadRequestException if the resulting configuration violates a constraint.
+   */
+  resetReplica(
+    serviceName: string,
+    replicaId: string,
+    context: ChangeContext = {},
+  ): ConfigurationRevision[] {
+    this.findReplica(serviceName, replicaId);
+    return this.applyReset(
+      [
+        this.buildResetChangeSet(this.findService(serviceName), {
+          replicaId,
+        }),
+      ],
+      context,
+    );
+  }
+
+  /**
+   * Resets all global variables of a service to their default values and removes all replica overrides.
+   * @param serviceName - The name of the service.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The recorded revision listing the values that changed, empty if nothing changed.
+   * @throws NotFoundException if the service is not found.
+   * @throws BadRequestException if the default values violate a constraint.
+   */
+  resetService(
+    serviceName: string,
+    context: ChangeContext = {},
+  ): ConfigurationRevision[] {
+    return this.applyReset(
+      [this.buildResetChangeSet(this.findService(serviceName), {})],
+      context,
+    );
+  }
+
+  /**
+   * Resets all services to the default values of their variable definitions and removes all replica overrides.
+   * Either all services are reset or none.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The recorded revisions listing the values that changed, one per changed service.
+   * @throws BadRequestException if the default values of a service violate a constraint.
+   */
+  resetAll(context: ChangeContext = {}): ConfigurationRevision[] {
+    return this.applyReset(
+      this.findAllServices().map((service) =>
+        this.buildResetChangeSet(service, {}),
+      ),
+      context,
+    );
+  }
+
+  /**
+   * Builds the change set resetting variables of a service.
+   * Only global variables deviating from their default and existing overrides are included.
+   * @param service - The service configuration.
+   * @param scope - The keys of the variables to reset, all if not set,
+   * and the ID of the only replica to reset, the global variables and all replicas are reset if not set.
+   * @returns The change set.
+   */
+  private buildResetChangeSet(
+    service: ServiceConfiguration,
+    scope: { keys?: string[]; replicaId?: string },
+  ): VariableChangeSet {
+    const inScope = (key: string) => !scope.keys || scope.keys.includes(key);
+    const globalVariables = scope.replicaId
+      ? []
+      : service.variableDefinitions
+          .filter(({ key }) => inScope(key))
+          .filter(
+            (definition) =>
+              JSON.stringify(
+                service.globalVariables.find(
+                  ({ key }) => key === definition.key,
+                )?.value,
+              ) !== JSON.stringify(definition.defaultValue),
+          )
+          .map((definition) => ({
+            key: definition.key,
+            value: structuredClone(definition.defaultValue),
+          }));
+    const replicas = service.replicas
+      .filter((replica) => !scope.replicaId || replica.id === scope.replicaId)
+      .map((replica) => ({
+        replicaId: replica.id,
+        variables: [],
+        clearedOverrides: replica.replicaVariables
+          .map(({ key }) => key)
+          .filter(inScope),
+      }))
+      .filter(({ clearedOverrides }) => clearedOverrides.length > 0);
+    return { serviceName: service.name, globalVariables, replicas };
+  }
+
+  /**
+   * Applies reset change sets as a whole, services without changes are neither updated nor published.
+   * @param changeSets - The reset change sets.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The recorded revisions, one per changed service.
+   * @throws BadRequestException if the resulting configuration violates a constraint.
+   */
+  private applyReset(
+    changeSets: VariableChangeSet[],
+    context: ChangeContext,
+  ): ConfigurationRevision[] {
+    const changed = changeSets.filter(
+      (changeSet) =>
+        (changeSet.globalVariables?.length ?? 0) > 0 ||
+        (changeSet.replicas?.length ?? 0) > 0,
+    );
+    if (changed.length === 0) {
+      return [];
+    }
+    const latestRevisions = new Map(
+      changed.map(({ serviceName }) => {
+        const revisions = this.historyService.findAll(serviceName);
+        return [serviceName, revisions[revisions.length - 1]?.revision ?? 0];
+      }),
+    );
+    this.applyChangeSets(changed, {
+      actor: context.actor,
+      reason: context.reason ?? 'Reset to defaults',
+    });
+    return [...latestRevisions].flatMap(([serviceName, revision]) =>
+      this.historyService.findAfter(serviceName, revision),
+    );
+  }
+
+  /**
+   * Applies variable updates for several services as a whole.
+   * All services, replicas and variables are resolved and validated before the first change is made,
+   * so either every change set is applied or none. The constraints of a service are checked against
+   * its resulting configuration once all of its variables are valid.
+   * Change sets of the same service are merged, each service gets a single revision.
+   * The configurations are published once every change has been applied, one event per service.
+   * @param changeSets - The variable updates per service.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @param recordRevision - Whether the changes are recorded as a revision, change events are emitted either way.
+   * @returns The updated service configurations.
+   * @throws NotFoundException if a service or replica is not found.
+   * @throws BadRequestException listing every problem if a variable does not match its definition.
+   */
+  applyChangeSets(
+    changeSets: VariableChangeSet[],
+    context: ChangeContext = {},
+    recordRevision = true,
+  ): ServiceConfiguration[] {
+    try {
+      // resolve and validate everything before the first change is made
+      const errors: VariableValidationError[] = [];
+      const resolved = this.mergeChangeSets(changeSets).map((changeSet) => {
+        const service = this.findService(changeSet.serviceName);
+        const globalVariables = changeSet.globalVariables ?? [];
+        const previousErrorCount = errors.length;
+        errors.push(
+          ...this.collectValidationErrors(globalVariables, service.name),
+        );
+        const replicaUpdates = (changeSet.replicas ?? []).map((update) => {
+          const replica = service.replicas.find(
+            (existingReplica) => existingReplica.id === update.replicaId,
+          );
+          if (!replica) {
+            throw new NotFoundException(
+              `Replica '${update.replicaId}' of service '${service.name}' not found`,
+            );
+          }
+          errors.push(
+            ...this.collectValidationErrors(
+              update.variables,
+              service.name,
+              replica.id,
+            ),
+          );
+          return {
+            replica,
+            variables: update.variables,
+            clearedOverrides: update.clearedOverrides ?? [],
+          };
+        });
+        if (errors.length === previousErrorCount) {
+          errors.push(...this.collectConstraintErrors(service, changeSet));
+        }
+        return { service, globalVariables, replicaUpdates };
+      });
+      this.throwOnValidationErrors(errors);
+
+      const applied = resolved.map(
+        ({ service, globalVariables, replicaUpdates }) => {
+          const changes = this.updateServiceVariables(service, globalVariables);
+          replicaUpdates.forEach(({ replica, variables, clearedOverrides }) => {
+            changes.push(
+              ...this.removeReplicaOverrides(replica, clearedOverrides),
+              ...this.updateReplicaVariables(replica, variables),
+            );
+          });
+          return { service, changes };
+        },
+      );
+      applied.forEach(({ service, changes }) =>
+        this.commitChanges(service, changes, context, recordRevision),
+      );
+      // send updated configurations to the sidecars only after everything is applied
+      return applied.map(({ service }) => {
+        this.eventService.publishConfiguration(service.name, service.replicas);
+        return service;
+      });
+    } catch (error) {
+      this.logger.error(`{applyChangeSets} ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Merges change sets that target the same service, keeping the order of the updates.
+   * @param changeSets - The variable updates per service.
+   * @returns One change set per service.
+   */
+  private mergeChangeSets(
+    changeSets: VariableChangeSet[],
+  ): VariableChangeSet[] {
+    const merged: Map<string, VariableChangeSet> = new Map();
+    changeSets.forEach((changeSet) => {
+      const existing = merged.get(changeSet.serviceName);
+      merged.set(changeSet.serviceName, {
+        serviceName: changeSet.serviceName,
+        globalVariables: [
+          ...(existing?.globalVariables ?? []),
+          ...(changeSet.globalVariables ?? []),
+        ],
+        replicas: [
+          ...(existing?.replicas ?? []),
+          ...(changeSet.replicas ?? []),
+        ],
+      });
+    });
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Replaces the variable definitions of a service with freshly fetched ones.
+   * New variables are added with their default value, vanished variables are removed or flagged,
+   * and stored values are revalidated against changed schemas: invalid global values are reset
+   * to the new default, invalid replica overrides are removed.
+   * The cross-variable constraints are replaced as well, stored values are not checked against them.
+   * Rejected definitions keep their previous definition, rejected constraints are dropped.
+   * @param serviceName - The name of the service.
+   * @param definitions - The variable definitions and constraints as returned by the sidecar.
+   * @param removedMode - How vanished variables are handled.
+   * @returns The report of the differences and invalidated values.
+   * @throws NotFoundException if the service is not found.
+   */
+  refreshVariableDefinitions(
+    serviceName: string,
+    { configuration, constraints = [] }: VariableDefinitionsDto,
+    removedMode: RemovedDefinitionMode = 'flag',
+  ): DefinitionSyncReport {
+    const service = this.findService(serviceName);
+    // the validators of the previous definitions are no longer needed
+    this.validatorService.invalidate(serviceName);
+    const { definitions: accepted, rejected } =
+      this.validatorService.checkDefinitions(serviceName, {
+        configuration,
+        constraints,
+      });
+    const report: DefinitionSyncReport = {
+      serviceName,
+      added: [],
+      removed: [],
+      flagged: [],
+      changed: [],
+      invalidated: [],
+      constraintsChanged:
+        JSON.stringify(service.variableConstraints ?? []) !==
+        JSON.stringify(accepted.constraints),
+      rejected,
+    };
+    service.variableConstraints = accepted.constraints;
+    const changes: VariableChange[] = [];
+    const definitions: ConfigurationVariableDefinition[] = [];
+    const changedDefinitions: ConfigurationVariableDefinition[] = [];
+
+    Object.entries(configuration).forEach(([key, value]) => {
+      const existing = service.variableDefinitions.find(
+        (def) => def.key === key,
+      );
+      if (!accepted.configuration[key]) {
+        if (existing) {
+          definitions.push(existing);
+        }
+        return;
+      }
+      const definition: ConfigurationVariableDefinition = {
+        key,
+        type: value.type,
+        defaultValue: value.defaultValue,
+      };
+      definitions.push(definition);
+      if (!existing) {
+        report.added.push(key);
+        service.globalVariables.push({ key, value: value.defaultValue });
+        changes.push({
+          scope: 'global',
+          key,
+          oldValue: undefined,
+          newValue: value.defaultValue,
+        });
+        return;
+      }
+      const unchanged =
+        !existing.deprecated &&
+        JSON.stringify(existing.type) === JSON.stringify(definition.type) &&
+        JSON.stringify(existing.defaultValue) ===
+          JSON.stringify(definition.defaultValue);
+      if (!unchanged) {
+        report.changed.push(key);
+        changedDefinitions.push(definition);
+      }
+    });
+
+    service.variableDefinitions
+      .filter((def) => !configuration[def.key])
+      .forEach((def) => {
+        if (removedMode === 'flag') {
+          if (!def.deprecated) {
+            report.flagged.push(def.key);
+          }
+          definitions.push({ ...def, deprecated: true });
+          return;
+        }
+        report.removed.push(def.key);
+        changes.push(
+          ...service.globalVariables
+            .filter((variable) => variable.key === def.key)
+            .map((variable) => ({
+              scope: 'global' as const,
+              key: variable.key,
+              oldValue: variable.value,
+              newValue: undefined,
+            })),
+        );
+        service.globalVariables = service.globalVariables.filter(
+          (variable) => variable.key !== def.key,
+        );
+        service.replicas.forEach((replica) =>
+          changes.push(...this.removeReplicaOverrides(replica, [def.key])),
+        );
+      });
+    service.variableDefinitions = definitions;
+
+    // revalidate the values of changed definitions
+    changedDefinitions.forEach((definition) => {
+      const { key, defaultValue } = definition;
+      const validate = this.validatorService.getVariableValidator(
+        serviceName,
+        definition,
+      );
+      const describeErrors = () =>
+        (validate.errors ?? [])
+          .map((err) => `${err.instancePath} ${err.message}`)
+          .join(', ');
+      service.globalVariables
+        .filter((variable) => variable.key === key)
+        .filter((variable) => !validate(variable.value))
+        .forEach((variable) => {
+          report.invalidated.push({
+            scope: 'global',
+            key,
+            value: variable.value,
+            errors: describeErrors(),
+          });
+          changes.push(
+            ...this.updateServiceVariables(service, [
+              { key, value: defaultValue },
+            ]),
+          );
+        });
+      service.replicas.forEach((replica) => {
+        const override = replica.replicaVariables.find(
+          (variable) => variable.key === key,
+        );
+        if (override && !validate(override.value)) {
+          report.invalidated.push({
+            scope: 'replica',
+            replicaId: replica.id,
+            key,
+            value: override.value,
+            errors: describeErrors(),
+          });
+          changes.push(...this.removeReplicaOverrides(replica, [key]));
+        }
+      });
+    });
+
+    this.commitChanges(service, changes, {
+      actor: 'definition-sync',
+      reason: 'Variable definitions refreshed from sidecar',
+    });
+    const drifted =
+      report.added.length +
+      report.removed.length +
+      report.flagged.length +
+      report.changed.length +
+      Number(report.constraintsChanged);
+    if (drifted > 0) {
+      this.logger.log(
+        `Variable definitions of ${serviceName} changed: ${JSON.stringify(report)}`,
+      );
+      this.emitChange({ type: 'definitions-refreshed', serviceName });
+      // send updated configuration to sidecar
+      this.eventService.publishConfiguration(serviceName, service.replicas);
+    }
+    return report;
+  }
+
+  /**
+   * Stores an updated service configuration, records the variable changes as a revision
+   * and emits the corresponding change events.
+   * @param service - The updated service configuration.
+   * @param changes - The variable changes.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @param recordRevision - Whether the changes are recorded as a revision, events of unrecorded changes carry no revision.
+   */
+  private commitChanges(
+    service: ServiceConfiguration,
+    changes: VariableChange[],
+    context: ChangeContext,
+    recordRevision = true,
+  ) {
+    this.serviceRepository.update(service.name, service);
+    const effectiveChanges = changes.filter(
+      (change) =>
+        JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue),
+    );
+    if (effectiveChanges.length === 0) {
+      return;
+    }
+    const revision = recordRevision
+      ? this.historyService.record(service.name, effectiveChanges, context)
+      : undefined;
+    const globalChanges = effectiveChanges.filter(
+      (change) => change.scope === 'global',
+    );
+    if (globalChanges.length > 0) {
+      this.emitChange({
+        type: 'global-variables-changed',
+        serviceName: service.name,
+        revision: revision?.revision,
+        changes: globalChanges,
+      });
+    }
+    const replicaIds = new Set(
+      effectiveChanges
+        .filter((change) => change.scope === 'replica')
+        .map((change) => change.replicaId),
+    );
+    replicaIds.forEach((replicaId) =>
+      this.emitChange({
+        type: 'replica-variables-changed',
+        serviceName: service.name,
+        replicaId,
+        revision: revision?.revision,
+        changes: effectiveChanges.filter(
+          (change) => change.replicaId === replicaId,
+        ),
+      }),
+    );
+  }
+
+  /**
+   * Streams the configuration change events.
+   * @param serviceName - Optional name of a service to only stream its events.
+   * @returns An Observable emitting the change events.
+   */
+  streamChanges(serviceName?: string): Observable<ConfigurationChangeEvent> {
+    return this.changeEvents
+      .asObservable()
+      .pipe(
+        filter((event) => !serviceName || event.serviceName === serviceName),
+      );
+  }
+
+  /**
+   * Emits a configuration change event to all subscribers.
+   * @param event - The event without timestamp.
+   */
+  private emitChange(event: Omit<ConfigurationChangeEvent, 'timestamp'>) {
+    this.changeEvents.next({ ...event, timestamp: new Date() });
+  }
+
   /**
    * Validates the configuration variables against the variable definitions of a service.
    * @param variables - The configuration variables to validate.
    * @param serviceName - The name of the service.
-   * @throws Error if the variables do not match the variable definitions.
+   * @param replicaId - The ID of the replica, if replica variables are validated.
+   * @throws BadRequestException listing every problem if the variables do not match the variable definitions.
    */
-  validateVariables(variables: ConfigurationVariable[], serviceName: string) {
+  validateVariables(
+    variables: ConfigurationVariable[],
+    serviceName: string,
+    replicaId?: string,
+  ) {
+    this.throwOnValidationErrors(
+      this.collectValidationErrors(variables, serviceName, replicaId),
+    );
+  }
+
+  /**
+   * Validates configuration variables against the variable definitions of a service and collects all problems.
+   * @param variables - The configuration variables to validate.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica, if replica variables are validated.
+   * @returns All validation errors, empty if the variables are valid.
+   * @throws NotFoundException if the service is not found.
+   */
+  collectValidationErrors(
+    variables: ConfigurationVariable[],
+    serviceName: string,
+    replicaId?: string,
+  ): VariableValidationError[] {
     const { variableDefinitions } = this.findService(serviceName);
-    variables.forEach((variable) => {
+    return variables.flatMap((variable): VariableValidationError[] => {
       const definition = variableDefinitions.find(
         (def) => def.key === variable.key,
       );
       if (!definition) {
-        throw new Error(`Variable definition not found for ${variable.key}`);
+        return [
+          {
+            serviceName,
+            replicaId,
+            key: variable.key,
+            type: 'unknown-variable',
+            message: `Variable definition not found for ${variable.key}`,
+          },
+        ];
       }
-      const validate = this.ajv.compile(definition.type);
-      const valid = validate(variable.value);
-      if (!valid) {
-        throw new BadRequestException(
-          `[${variable.key}] Validation failed: ${validate.errors?.map((err: any) => `${err.instancePath} ${err.message}`).join(', ')}`,
-        );
+      const validate = this.validatorService.getVariableValidator(
+        serviceName,
+        definition,
+      );
+      if (validate(variable.value)) {
+        return [];
+      }
+      return (validate.errors ?? []).map((err: any) => ({
+        serviceName,
+        replicaId,
+        key: variable.key,
+        type: 'schema-violation',
+        instancePath: err.instancePath,
+        keyword: err.keyword,
+        params: err.params,
+        message: `[${variable.key}] Validation failed: ${err.instancePath} ${err.message}`,
+      }));
+    });
+  }
+
+  /**
+   * Checks the cross-variable constraints of a service against the configuration resulting from a change set.
+   * The change set is applied to a copy of the service, the service itself is not changed.
+   * @param service - The service configuration.
+   * @param changeSet - The variable updates, the variables must be valid on their own.
+   * @returns All constraint violations, empty if the resulting configuration satisfies all constraints.
+   */
+  collectConstraintErrors(
+    service: ServiceConfiguration,
+    changeSet: VariableChangeSet,
+  ): VariableValidationError[] {
+    if (!service.variableConstraints?.length) {
+      return [];
+    }
+    const preview = structuredClone(service);
+    this.updateServiceVariables(preview, changeSet.globalVariables ?? []);
+    (changeSet.replicas ?? []).forEach((update) => {
+      const replica = preview.replicas.find(
+        ({ id }) => id === update.replicaId,
+      );
+      if (replica) {
+        this.removeReplicaOverrides(replica, update.clearedOverrides ?? []);
+        this.updateReplicaVariables(replica, update.variables);
       }
     });
+    // the constraints of the service itself are evaluated, so their compiled validators are reused
+    return this.evaluateConstraints(preview, service.variableConstraints);
   }
 
   /**
-   * Deletes a service by name.
+   * Evaluates the cross-variable constraints of a service against the effective configuration
+   * of the service and of every replica with overrides, replicas without overrides use the global values.
+   * @param service - The service configuration.
+   * @param constraints - The constraints to evaluate.
+   * @returns All constraint violations.
+   */
+  private evaluateConstraints(
+    service: ServiceConfiguration,
+    constraints: VariableConstraint[],
+  ): VariableValidationError[] {
+    const targets: {
+      replicaId?: string;
+      variables: ConfigurationVariable[];
+    }[] = [
+      { variables: service.globalVariables },
+      ...service.replicas
+        .filter((replica) => replica.replicaVariables.length > 0)
+        .map((replica) => ({
+          replicaId: replica.id,
+          variables: this.getEffectiveVariables(service, replica),
+        })),
+    ];
+    return constraints.flatMap((constraint) => {
+      const validate = this.validatorService.getConstraintValidator(
+        service.name,
+        constraint,
+      );
+      return targets.flatMap(({ replicaId, variables }) => {
+        const values = Object.fromEntries(
+          variables.map((variable) => [variable.key, variable.value]),
+        );
+        if (validate(values)) {
+          return [];
+        }
+        return (validate.errors ?? []).map(
+          (err: any): VariableValidationError => ({
+            serviceName: service.name,
+            replicaId,
+            // the first segment of the pointer is the key of the variable
+            key:
+              err.instancePath.split('/')[1] ??
+              err.params?.missingProperty ??
+              '',
+            type: 'constraint-violation',
+            constraint: constraint.name,
+            instancePath: err.instancePath,
+            keyword: err.keyword,
+            params: err.params,
+            message: `[${constraint.name}] Constraint violated${replicaId ? ` by replica ${replicaId}` : ''}: ${err.instancePath} ${err.message}`,
+          }),
+        );
+      });
+    });
+  }
+
+  /**
+   * Throws if any validation error was found.
+   * @param errors - The validation errors.
+   * @throws BadRequestException containing the messages and the structured errors.
+   */
+  private throwOnValidationErrors(errors: VariableValidationError[]) {
+    if (errors.length > 0) {
+      new Set(errors.map((error) => error.serviceName)).forEach((serviceName) =>
+        this.metricsService.recordValidationFailure(serviceName),
+      );
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errors.map((error) => error.message),
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Validates global variables of a service and the constraints of the resulting configuration without applying them.
+   * @param serviceName - The name of the service.
+   * @param variables - The variables to validate.
+   * @returns The validation result listing every problem.
+   * @throws NotFoundException if the service is not found.
+   */
+  dryRunServiceVariables(
+    serviceName: string,
+    variables: ConfigurationVariable[],
+  ): VariableValidationResult {
+    const errors = this.collectValidationErrors(variables, serviceName);
+    if (errors.length === 0) {
+      errors.push(
+        ...this.collectConstraintErrors(this.findService(serviceName), {
+          serviceName,
+          globalVariables: variables,
+        }),
+      );
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validates replica variables and the constraints of the resulting configuration without applying them.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @param variables - The variables to validate.
+   * @returns The validation result listing every problem.
+   * @throws NotFoundException if the service or replica is not found.
+   */
+  dryRunReplicaVariables(
+    serviceName: string,
+    replicaId: string,
+    variables: ConfigurationVariable[],
+  ): VariableValidationResult {
+    this.findReplica(serviceName, replicaId);
+    const errors = this.collectValidationErrors(
+      variables,
+      serviceName,
+      replicaId,
+    );
+    if (errors.length === 0) {
+      errors.push(
+        ...this.collectConstraintErrors(this.findService(serviceName), {
+          serviceName,
+          replicas: [{ replicaId, variables }],
+        }),
+      );
+    }
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Deletes a service by name together with its registration, so it registers anew on its next heartbeat.
+   * A pending registration is cancelled, even if the service was not added yet.
    * @param name - The name of the service to delete.
    * @returns True if the service was successfully deleted.
-   * @throws NotFoundException if the service is not found.
+   * @throws NotFoundException if the service is neither found nor registering.
    */
   deleteService(name: string): boolean {
+    const registered = this.removeRegistration(name);
     const deleted = this.serviceRepository.delete(name);
-    if (!deleted) {
+    if (!deleted && !registered) {
       this.logger.error(
         `Failed to delete service ${name} as it does not exist`,
       );
       throw new NotFoundException(`Service '${name}' not found`);
     }
-    return deleted;
+    this.validatorService.invalidate(name);
+    return true;
+  }
+
+  /**
+   * Removes the registration of a service, its pending retry and its queued replica metadata.
+   * @param serviceName - The name of the service.
+   * @returns True if the service had a registration.
+   */
+  private removeRegistration(serviceName: string): boolean {
+    clearTimeout(this.retryTimers.get(serviceName));
+    this.retryTimers.delete(serviceName);
+    this.queuedMetadata.delete(serviceName);
+    return this.registrations.delete(serviceName);
   }
 
   /**
    * Deletes a replica by ID.
    * @param serviceName - The name of the service.
    * @param replicaId - The ID of the replica.
+   * @param keepTombstone - Whether a tombstone of the replica is kept in the service configuration,
+   * the oldest tombstones are dropped beyond the configured maximum.
    * @returns True if the replica was successfully deleted.
    * @throws NotFoundException if the service is not found.
    * @throws NotFoundException if the replica is not found.
    */
-  deleteReplica(serviceName: string, replicaId: string): boolean {
+  deleteReplica(
+    serviceName: string,
+    replicaId: string,
+    keepTombstone: boolean = false,
+  ): boolean {
     const service = this.findService(serviceName);
     if (!service) {
       throw new NotFoundException(`Service '${serviceName}' not found`);
     }
-    const initialLength = service.replicas.length;
+    const replica = service.replicas.find(
+      (replica) => replica.id === replicaId,
+    );
+    if (!replica) {
+      throw new NotFoundException(`Replica '${replicaId}' not found`);
+    }
     service.replicas = service.replicas.filter(
       (replica) => replica.id !== replicaId,
     );
-    if (service.replicas.length == initialLength) {
-      throw new NotFoundException(`Replica '${replicaId}' not found`);
+    if (keepTombstone) {
+      // only the most recent tombstones are kept, so replicas churning do not grow the configuration forever
+      service.removedReplicas = [
+        ...(service.removedReplicas ?? []),
+        { id: replicaId, lastSeen: replica.lastSeen, removedAt: new Date() },
+      ].slice(-this.config.replicaMaxTombstones);
     }
     this.serviceRepository.update(serviceName, service);
+    this.emitChange({ type: 'replica-removed', serviceName, replicaId });
     return true;
   }
 }
@@ -2,17 +2,23 @@ import { HttpService } from '@nestjs/axios';
 import { Injectable, Logger } from '@nestjs/common';
 import { AxiosResponse } from 'axios';
 import { VariableDefinitionsDto } from './dto/variable-definitions.dto';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { AppConfig } from 'src/app-config/app-config';
 
 /**
  * Service for connecting to individual service sidecars.
  */
 @Injectable()
 export class ConnectorService {
-  private baseUrl: string = 'http://localhost:3500/v1.0/invoke';
+  private readonly baseUrl: string;
   constructor(
     private readonly logger: Logger,
     private readonly httpService: HttpService,
-  ) {}
+    private readonly metricsService: MetricsService,
+    private readonly config: AppConfig,
+  ) {
+    this.baseUrl = `http://${config.daprHost}:${config.daprHttpPort}/v1.0/invoke`;
+  }
 
   /**
    * Request the variable definitions from the specified sidecar.
@@ -24,16 +30,18 @@ export class ConnectorService {
   ): Promise<AxiosResponse<VariableDefinitionsDto>> {
     try {
       const response = (await this.httpService
-        .get(`${this.baseUrl}/${service}/method/_ecs/defined-variables`)
+        .get(`${this.baseUrl}/${service}/method/${this.config.definitionsPath}`)
         .toPromise()) as AxiosResponse<VariableDefinitionsDto>;
 
       if (response && response.status !== 200) {
+        this.metricsService.recordDefinitionFetchFailure(service);
         this.logger.error(
           `Variable Request to ${service}-sidecar's failed with status ${response.status}`,
         );
       }
       return response;
     } catch (error) {
+      this.metricsService.recordDefinitionFetchFailure(service);
       this.logger.error(
         `Error sending variable request to ${service}-sidecar:`,
         error,
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadGatewayException, Logger } from '@nestjs/common';
+import { DefinitionSyncService } from './definition-sync.service';
+import { ConfigurationService } from './configuration.service';
+import { ConnectorService } from './connector.service';
+import { AppConfig } from 'src/app-config/app-config';
+
+describe('DefinitionSyncService', () => {
+  let service: DefinitionSyncService;
+  let getConfigFromSidecar: jest.Mock;
+  let refreshVariableDefinitions: jest.Mock;
+
+  beforeEach(async () => {
+    getConfigFromSidecar = jest.fn();
+    refreshVariableDefinitions = jest.fn().mockReturnValue({});
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DefinitionSyncService,
+        {
+          provide: ConfigurationService,
+          useValue: { findService: jest.fn(), refreshVariableDefinitions },
+        },
+        { provide: ConnectorService, useValue: { getConfigFromSidecar } },
+        { provide: AppConfig, useValue: new AppConfig() },
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DefinitionSyncService>(DefinitionSyncService);
+  });
+
+  it('should apply the definitions returned by the sidecar', async () => {
+    const definitions = { configuration: {} };
+    getConfigFromSidecar.mockResolvedValue({ data: definitions });
+
+    await service.syncService('svc', 'remove');
+
+    expect(refreshVariableDefinitions).toHaveBeenCalledWith(
+      'svc',
+      definitions,
+      'remove',
+    );
+  });
+
+  it.each([undefined, '', {}])(
+    'should change nothing if the sidecar returns %p',
+    async (data) => {
+      getConfigFromSidecar.mockResolvedValue({ data });
+
+      await expect(service.syncService('svc', 'remove')).rejects.toThrow(
+        BadGatewayException,
+      );
+      expect(refreshVariableDefinitions).not.toHaveBeenCalled();
+    },
+  );
+});
@@ -0,0 +1,108 @@
+import {
+  BadGatewayException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { AxiosResponse } from 'axios';
+import { AppConfig } from 'src/app-config/app-config';
+import { ConfigurationService } from './configuration.service';
+import { ConnectorService } from './connector.service';
+import { VariableDefinitionsDto } from './dto/variable-definitions.dto';
+import {
+  DefinitionSyncReport,
+  RemovedDefinitionMode,
+} from './entities/definition-sync-report.entity';
+
+/**
+ * Service for re-synchronising the variable definitions of registered services with their sidecars.
+ * Besides the on-demand sync, an optional periodic job syncs all services.
+ */
+@Injectable()
+export class DefinitionSyncService implements OnModuleInit, OnModuleDestroy {
+  private syncJob?: NodeJS.Timeout;
+  // the running periodic sync, further ticks are skipped until it finished
+  private runningSync?: Promise<DefinitionSyncReport[]>;
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly connectorService: ConnectorService,
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleInit() {
+    // the periodic sync is disabled with an interval of 0
+    if (this.config.definitionSyncIntervalMs > 0) {
+      this.syncJob = setInterval(
+        () => this.syncPeriodically(),
+        this.config.definitionSyncIntervalMs,
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.syncJob);
+  }
+
+  /**
+   * Re-fetches the variable definitions of a service from its sidecar and applies the differences.
+   * @param serviceName - The name of the service.
+   * @param removedMode - How vanished variables are handled.
+   * @returns The report of the differences and invalidated values.
+   * @throws NotFoundException if the service is not found.
+   * @throws BadGatewayException if the sidecar returns no variable definitions, nothing is changed then.
+   */
+  async syncService(
+    serviceName: string,
+    removedMode: RemovedDefinitionMode = this.config.definitionSyncRemovedMode,
+  ): Promise<DefinitionSyncReport> {
+    // fail before the sidecar request if the service is unknown
+    this.configurationService.findService(serviceName);
+    const { data }: AxiosResponse<VariableDefinitionsDto> =
+      await this.connectorService.getConfigFromSidecar(serviceName);
+    if (!data?.configuration) {
+      throw new BadGatewayException(
+        `Sidecar of ${serviceName} returned no variable definitions`,
+      );
+    }
+    return this.configurationService.refreshVariableDefinitions(
+      serviceName,
+      data,
+      removedMode,
+    );
+  }
+
+  /**
+   * Re-synchronises the variable definitions of all services, failures are logged.
+   * @returns The reports of all successfully synchronised services.
+   */
+  async syncAll(): Promise<DefinitionSyncReport[]> {
+    const reports: DefinitionSyncReport[] = [];
+    for (const serviceName of this.configurationService.findAllServiceNames()) {
+      try {
+        reports.push(await this.syncService(serviceName));
+      } catch (error) {
+        this.logger.error(`{syncAll} ${serviceName}: ${error.message}`);
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Starts a periodic sync of all services, unless the previous one is still running,
+   * so slow sidecars can not make syncs overlap and apply their definitions out of order.
+   */
+  private syncPeriodically() {
+    if (this.runningSync) {
+      this.logger.warn(
+        'Skipping periodic definition sync, the previous sync is still running',
+      );
+      return;
+    }
+    this.runningSync = this.syncAll().finally(() => {
+      this.runningSync = undefined;
+    });
+  }
+}
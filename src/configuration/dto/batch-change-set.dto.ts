@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  ReplicaVariableUpdate,
+  VariableChangeSet,
+} from '../entities/variable-change-set.entity';
+import { ChangeContextDto } from './change-context.dto';
+import { ConfigurationVariableDto } from './service-configuration.dto';
+
+/**
+ * DTO for updating the overrides of a replica within a batch.
+ * @property replicaId - The ID of the replica.
+ * @property variables - The added or updated overrides.
+ * @property clearedOverrides - The keys of overrides to remove before the variables are applied.
+ */
+export class ReplicaVariableUpdateDto implements ReplicaVariableUpdate {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  replicaId: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  variables: ConfigurationVariableDto[];
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  clearedOverrides?: string[];
+}
+
+/**
+ * DTO for the updates of a single service within a batch.
+ * @property serviceName - The name of the service.
+ * @property globalVariables - The updated global variables.
+ * @property replicas - The updated overrides per replica.
+ */
+export class VariableChangeSetDto implements VariableChangeSet {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  serviceName: string;
+  @ApiPropertyOptional({ type: [ConfigurationVariableDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  globalVariables?: ConfigurationVariableDto[];
+  @ApiPropertyOptional({ type: [ReplicaVariableUpdateDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReplicaVariableUpdateDto)
+  replicas?: ReplicaVariableUpdateDto[];
+}
+
+/**
+ * DTO for updating variables of several services and replicas at once.
+ * @property changeSets - The updates per service.
+ */
+export class BatchChangeSetDto extends ChangeContextDto {
+  @ApiProperty({ type: [VariableChangeSetDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => VariableChangeSetDto)
+  changeSets: VariableChangeSetDto[];
+}
@@ -1,12 +1,18 @@
-import { IsNotEmpty, ValidateNested } from 'class-validator';
-import { ConfigurationVariable } from '../entities/service-configuration.entity';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsArray, IsNotEmpty, ValidateNested } from 'class-validator';
+import { ChangeContextDto } from './change-context.dto';
+import { ConfigurationVariableDto } from './service-configuration.dto';
 
 /**
  * DTO for updating multiple configuration variables.
  * @property variables - The updated variables.
  */
-export class BatchUpdateVariableDto {
+export class BatchUpdateVariableDto extends ChangeContextDto {
+  @ApiProperty({ type: [ConfigurationVariableDto] })
   @IsNotEmpty()
-  @ValidateNested()
-  variables: ConfigurationVariable[];
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  variables: ConfigurationVariableDto[];
 }
@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for the optional context of a configuration change.
+ * @property actor - Optional user or system making the change, recorded in the change history.
+ * @property reason - Optional reason of the change, recorded in the change history.
+ */
+export class ChangeContextDto {
+  @ApiPropertyOptional({
+    description:
+      'User or system making the change, replaced by the authenticated subject if authentication is enabled',
+  })
+  @IsOptional()
+  @IsString()
+  actor?: string;
+  @ApiPropertyOptional({
+    description: 'Reason of the change, recorded in the change history',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import {
+  ConfigurationDocument,
+  ReplicaDocument,
+  ServiceDocument,
+} from '../entities/configuration-document.entity';
+import {
+  ConfigurationVariableDefinitionDto,
+  ConfigurationVariableDto,
+} from './service-configuration.dto';
+
+/**
+ * DTO for the overrides of a replica in a configuration document.
+ * @property id - The ID of the replica.
+ * @property variables - The overrides of the replica.
+ */
+export class ReplicaDocumentDto implements ReplicaDocument {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  variables: ConfigurationVariableDto[];
+}
+
+/**
+ * DTO for the configuration of a service in a configuration document.
+ * @property name - The name of the service.
+ * @property globalVariables - The global variables of the service.
+ * @property replicas - The overrides of the replicas of the service.
+ * @property variableDefinitions - The variable definitions of the service, ignored on import.
+ */
+export class ServiceDocumentDto implements ServiceDocument {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+  @ApiPropertyOptional({ type: [ConfigurationVariableDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  globalVariables?: ConfigurationVariableDto[];
+  @ApiPropertyOptional({ type: [ReplicaDocumentDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReplicaDocumentDto)
+  replicas?: ReplicaDocumentDto[];
+  @ApiPropertyOptional({ type: [ConfigurationVariableDefinitionDto] })
+  @IsOptional()
+  @IsArray()
+  variableDefinitions?: ConfigurationVariableDefinitionDto[];
+}
+
+/**
+ * DTO for a configuration document.
+ * @property exportedAt - The time the document was exported.
+ * @property services - The service configurations.
+ */
+export class ConfigurationDocumentDto implements ConfigurationDocument {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  exportedAt?: string;
+  @ApiProperty({ type: [ServiceDocumentDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ServiceDocumentDto)
+  services: ServiceDocumentDto[];
+}
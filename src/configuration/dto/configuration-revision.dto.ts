@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  ConfigurationRevision,
+  VariableChange,
+  VariableScope,
+} from '../entities/configuration-revision.entity';
+import {
+  ConfigurationChangeEvent,
+  ConfigurationChangeEventType,
+} from '../entities/configuration-change-event.entity';
+
+/**
+ * DTO for the change of a single configuration variable.
+ * @property scope - Whether a global or a replica variable was changed.
+ * @property replicaId - The ID of the replica, only set for the replica scope.
+ * @property key - The key of the variable.
+ * @property oldValue - The value before the change, missing if the variable or override did not exist.
+ * @property newValue - The value after the change, missing if the variable or override was removed.
+ */
+export class VariableChangeDto implements VariableChange {
+  @ApiProperty({ enum: ['global', 'replica'] })
+  scope: VariableScope;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiProperty()
+  key: string;
+  @ApiPropertyOptional(ANY_VALUE)
+  oldValue: any;
+  @ApiPropertyOptional(ANY_VALUE)
+  newValue: any;
+}
+
+/**
+ * DTO for a revision of a service configuration.
+ * @property revision - The revision number.
+ * @property serviceName - The name of the service.
+ * @property timestamp - The time the revision was created.
+ * @property actor - The user or system that made the change.
+ * @property reason - The reason of the change.
+ * @property changes - The variable changes.
+ */
+export class ConfigurationRevisionDto implements ConfigurationRevision {
+  @ApiProperty()
+  revision: number;
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty()
+  timestamp: Date;
+  @ApiPropertyOptional()
+  actor?: string;
+  @ApiPropertyOptional()
+  reason?: string;
+  @ApiProperty({ type: [VariableChangeDto] })
+  changes: VariableChangeDto[];
+}
+
+/**
+ * DTO for a configuration change event, sent as `data` of a server-sent event.
+ * @property type - The type of the change, also the name of the server-sent event.
+ * @property serviceName - The name of the affected service.
+ * @property replicaId - The ID of the affected replica.
+ * @property revision - The revision the variable changes were recorded in.
+ * @property changes - The variable changes.
+ * @property timestamp - The time of the change.
+ */
+export class ConfigurationChangeEventDto implements ConfigurationChangeEvent {
+  @ApiProperty({
+    enum: [
+      'service-registered',
+      'replica-added',
+      'replica-removed',
+      'global-variables-changed',
+      'replica-variables-changed',
+      'definitions-refreshed',
+    ],
+  })
+  type: ConfigurationChangeEventType;
+  @ApiProperty()
+  serviceName: string;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiPropertyOptional()
+  revision?: number;
+  @ApiPropertyOptional({ type: [VariableChangeDto] })
+  changes?: VariableChangeDto[];
+  @ApiProperty()
+  timestamp: Date;
+}
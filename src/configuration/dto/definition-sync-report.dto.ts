@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  DefinitionSyncReport,
+  InvalidatedValue,
+} from '../entities/definition-sync-report.entity';
+import { VariableScope } from '../entities/configuration-revision.entity';
+import { RejectedDefinitionDto } from './rejected-definition.dto';
+
+/**
+ * DTO for a stored value that no longer matches its changed definition.
+ * @property scope - Whether a global value or a replica override is affected.
+ * @property replicaId - The ID of the replica.
+ * @property key - The key of the variable.
+ * @property value - The invalid value.
+ * @property errors - The validation errors of the value.
+ */
+export class InvalidatedValueDto implements InvalidatedValue {
+  @ApiProperty({ enum: ['global', 'replica'] })
+  scope: VariableScope;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiProperty()
+  key: string;
+  @ApiProperty(ANY_VALUE)
+  value: any;
+  @ApiProperty()
+  errors: string;
+}
+
+/**
+ * DTO for the result of re-synchronising the variable definitions of a service.
+ * @property serviceName - The name of the service.
+ * @property added - Keys of new variables.
+ * @property removed - Keys of removed variables.
+ * @property flagged - Keys of variables flagged as deprecated.
+ * @property changed - Keys of variables whose schema or default value changed.
+ * @property invalidated - Values that no longer matched their changed definition.
+ * @property constraintsChanged - Whether the cross-variable constraints changed.
+ * @property rejected - Definitions and constraints that were rejected.
+ */
+export class DefinitionSyncReportDto implements DefinitionSyncReport {
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty({ type: [String] })
+  added: string[];
+  @ApiProperty({ type: [String] })
+  removed: string[];
+  @ApiProperty({ type: [String] })
+  flagged: string[];
+  @ApiProperty({ type: [String] })
+  changed: string[];
+  @ApiProperty({ type: [InvalidatedValueDto] })
+  invalidated: InvalidatedValueDto[];
+  @ApiProperty()
+  constraintsChanged: boolean;
+  @ApiProperty({ type: [RejectedDefinitionDto] })
+  rejected: RejectedDefinitionDto[];
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RejectedDefinition,
+  RejectedDefinitionKind,
+} from '../entities/rejected-definition.entity';
+
+/**
+ * DTO for a definition of a sidecar that was rejected.
+ * @property kind - Whether a variable definition or a constraint was rejected.
+ * @property key - The key of the variable or the name of the constraint.
+ * @property reason - Why the definition was rejected.
+ */
+export class RejectedDefinitionDto implements RejectedDefinition {
+  @ApiProperty({ enum: ['variable', 'constraint'] })
+  kind: RejectedDefinitionKind;
+  @ApiProperty({ example: 'latency' })
+  key: string;
+  @ApiProperty({
+    example:
+      'The default value -1 does not match the schema: data must be >= 0',
+  })
+  reason: string;
+}
@@ -0,0 +1,175 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  ConfigurationVariable,
+  ConfigurationVariableDefinition,
+  ReplicaLiveness,
+  ReplicaMetadata,
+  ReplicaTombstone,
+  ServiceConfiguration,
+  ServiceReplica,
+  VariableConstraint,
+} from '../entities/service-configuration.entity';
+
+/**
+ * DTO for a configuration variable.
+ * @property key - The key of the variable.
+ * @property value - The value of the variable.
+ */
+export class ConfigurationVariableDto implements ConfigurationVariable {
+  @ApiProperty({ example: 'latency' })
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+  @ApiProperty({
+    ...ANY_VALUE,
+    description: 'Validated against the JSON Schema of the variable',
+  })
+  value: any;
+}
+
+/**
+ * DTO for the definition of a configuration variable.
+ * @property key - The key of the variable.
+ * @property type - The JSON Schema of the variable.
+ * @property defaultValue - The default value of the variable.
+ * @property deprecated - Set if the variable is no longer defined by the service sidecar.
+ */
+export class ConfigurationVariableDefinitionDto
+  implements ConfigurationVariableDefinition
+{
+  @ApiProperty()
+  key: string;
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    description: 'JSON Schema of the variable',
+  })
+  type: any;
+  @ApiProperty(ANY_VALUE)
+  defaultValue: any;
+  @ApiPropertyOptional()
+  deprecated?: boolean;
+}
+
+/**
+ * DTO for a constraint spanning several configuration variables.
+ * @property name - The name of the constraint.
+ * @property description - The description of the constraint.
+ * @property schema - The JSON Schema the effective variables must match.
+ */
+export class VariableConstraintDto implements VariableConstraint {
+  @ApiProperty({ example: 'min-below-max' })
+  name: string;
+  @ApiPropertyOptional()
+  description?: string;
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    description:
+      'JSON Schema over the effective variables by key, may reference other variables with `$data`',
+  })
+  schema: Record<string, any>;
+}
+
+/**
+ * DTO for the metadata of a replica.
+ * @property version - Optional version of the service running in the replica.
+ * @property host - Optional host the replica runs on.
+ * @property zone - Optional zone the replica runs in.
+ * @property labels - Optional arbitrary labels of the replica.
+ */
+export class ReplicaMetadataDto implements ReplicaMetadata {
+  @ApiPropertyOptional({ example: '1.2.0' })
+  @IsOptional()
+  @IsString()
+  version?: string;
+  @ApiPropertyOptional({ example: 'node-1' })
+  @IsOptional()
+  @IsString()
+  host?: string;
+  @ApiPropertyOptional({ example: 'a' })
+  @IsOptional()
+  @IsString()
+  zone?: string;
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    example: { track: 'canary' },
+  })
+  @IsOptional()
+  @IsObject()
+  labels?: Record<string, string>;
+}
+
+/**
+ * DTO for a service replica.
+ * @property id - The ID of the replica.
+ * @property replicaVariables - The overrides of the replica.
+ * @property lastSeen - The time of the last heartbeat.
+ * @property liveness - The liveness of the replica.
+ * @property metadata - The metadata reported by the replica.
+ */
+export class ServiceReplicaDto implements ServiceReplica {
+  @ApiProperty()
+  id: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  replicaVariables: ConfigurationVariableDto[];
+  @ApiPropertyOptional()
+  lastSeen?: Date;
+  @ApiPropertyOptional({ enum: ['healthy', 'stale', 'dead'] })
+  liveness?: ReplicaLiveness;
+  @ApiPropertyOptional({ type: ReplicaMetadataDto })
+  metadata?: ReplicaMetadataDto;
+}
+
+/**
+ * DTO for a service replica with its liveness.
+ * @property lastSeenAgeMs - Milliseconds since the last heartbeat.
+ */
+export class ReplicaLivenessStatusDto extends ServiceReplicaDto {
+  @ApiProperty({ enum: ['healthy', 'stale', 'dead'] })
+  liveness: ReplicaLiveness;
+  @ApiPropertyOptional()
+  lastSeenAgeMs?: number;
+}
+
+/**
+ * DTO for a removed replica.
+ * @property id - The ID of the replica.
+ * @property lastSeen - The time of the last heartbeat.
+ * @property removedAt - The time the replica was removed.
+ */
+export class ReplicaTombstoneDto implements ReplicaTombstone {
+  @ApiProperty()
+  id: string;
+  @ApiPropertyOptional()
+  lastSeen?: Date;
+  @ApiProperty()
+  removedAt: Date;
+}
+
+/**
+ * DTO for a service configuration.
+ * @property name - The name of the service.
+ * @property replicas - The replicas of the service.
+ * @property globalVariables - The global variables of the service.
+ * @property variableDefinitions - The variable definitions of the service.
+ * @property variableConstraints - The cross-variable constraints of the service.
+ * @property removedReplicas - Tombstones of removed replicas.
+ */
+export class ServiceConfigurationDto implements ServiceConfiguration {
+  @ApiProperty()
+  name: string;
+  @ApiProperty({ type: [ServiceReplicaDto] })
+  replicas: ServiceReplicaDto[];
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  globalVariables: ConfigurationVariableDto[];
+  @ApiProperty({ type: [ConfigurationVariableDefinitionDto] })
+  variableDefinitions: ConfigurationVariableDefinitionDto[];
+  @ApiPropertyOptional({ type: [VariableConstraintDto] })
+  variableConstraints?: VariableConstraintDto[];
+  @ApiPropertyOptional({ type: [ReplicaTombstoneDto] })
+  removedReplicas?: ReplicaTombstoneDto[];
+}
@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  RegistrationState,
+  ServiceRegistration,
+} from '../entities/service-registration.entity';
+import { RejectedDefinitionDto } from './rejected-definition.dto';
+
+/**
+ * DTO for the registration of a service.
+ * @property serviceName - The name of the service.
+ * @property state - The state of the registration.
+ * @property attempts - The number of attempts to fetch the variable definitions.
+ * @property lastError - The error of the last failed attempt.
+ * @property nextAttemptAt - The time of the next attempt.
+ * @property queuedReplicaIds - Replicas added once the service is registered.
+ * @property updatedAt - The time of the last state change.
+ * @property rejectedDefinitions - Definitions and constraints rejected during the registration.
+ */
+export class ServiceRegistrationDto implements ServiceRegistration {
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty({
+    enum: ['pending', 'fetching-definitions', 'registered', 'failed'],
+  })
+  state: RegistrationState;
+  @ApiProperty()
+  attempts: number;
+  @ApiPropertyOptional()
+  lastError?: string;
+  @ApiPropertyOptional()
+  nextAttemptAt?: Date;
+  @ApiProperty({ type: [String] })
+  queuedReplicaIds: string[];
+  @ApiProperty()
+  updatedAt: Date;
+  @ApiPropertyOptional({ type: [RejectedDefinitionDto] })
+  rejectedDefinitions?: RejectedDefinitionDto[];
+}
@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { BatchUpdateVariableDto } from './batch-update-variables.dto';
+import { ServiceConfigurationDto } from './service-configuration.dto';
+import {
+  ReplicaTarget,
+  TargetedUpdateResult,
+} from '../entities/replica-target.entity';
+
+/**
+ * DTO for updating the overrides of all replicas selected by their metadata.
+ * @property selector - Optional label selector, all replicas match if not set.
+ * @property percentage - Optional percentage of the matching replicas to update.
+ * @property count - Optional number of the matching replicas to update.
+ */
+export class TargetedUpdateVariableDto
+  extends BatchUpdateVariableDto
+  implements ReplicaTarget
+{
+  @ApiPropertyOptional({
+    description:
+      'Comma separated requirements on `version`, `host`, `zone` or labels, e.g. `zone=a,version!=2`',
+    example: 'zone=a',
+  })
+  @IsOptional()
+  @IsString()
+  selector?: string;
+  @ApiPropertyOptional({
+    description: 'Percentage of the matching replicas to update, rounded up',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+  @ApiPropertyOptional({
+    description: 'Number of the matching replicas to update',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  count?: number;
+}
+
+/**
+ * DTO for the result of a targeted update.
+ * @property replicaIds - The IDs of the updated replicas.
+ * @property configuration - The updated service configuration.
+ */
+export class TargetedUpdateResultDto implements TargetedUpdateResult {
+  @ApiProperty({ type: [String] })
+  replicaIds: string[];
+  @ApiProperty({ type: ServiceConfigurationDto })
+  configuration: ServiceConfigurationDto;
+}
@@ -1,7 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import { ChangeContextDto } from './change-context.dto';
+
 /**
  * DTO for updating a single configuration variable.
  * @property value - The updated value.
  */
-export class UpdateVariableDto {
+export class UpdateVariableDto extends ChangeContextDto {
+  @ApiProperty({
+    ...ANY_VALUE,
+    description: 'Validated against the JSON Schema of the variable',
+  })
   value: any;
 }
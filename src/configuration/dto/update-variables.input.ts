@@ -0,0 +1,70 @@
+import { Field, InputType } from '@nestjs/graphql';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { GraphQLJSON } from 'graphql-type-json';
+import { ConfigurationVariable } from '../entities/service-configuration.entity';
+
+/**
+ * GraphQL input of a configuration variable.
+ */
+@InputType()
+export class ConfigurationVariableInput implements ConfigurationVariable {
+  @Field()
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+  @Field(() => GraphQLJSON, {
+    nullable: true,
+    description: 'Validated against the JSON Schema of the variable',
+  })
+  value: any;
+}
+
+/**
+ * GraphQL input for updating the global variables of a service.
+ * @property service - The name of the service.
+ * @property variables - The updated variables.
+ * @property actor - Optional user or system making the change, recorded in the change history.
+ * @property reason - Optional reason of the change, recorded in the change history.
+ */
+@InputType()
+export class UpdateServiceVariablesInput {
+  @Field()
+  @IsString()
+  service: string;
+  @Field(() => [ConfigurationVariableInput])
+  @IsNotEmpty()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableInput)
+  variables: ConfigurationVariableInput[];
+  @Field({
+    nullable: true,
+    description:
+      'User or system making the change, replaced by the authenticated subject if authentication is enabled',
+  })
+  @IsOptional()
+  @IsString()
+  actor?: string;
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+/**
+ * GraphQL input for updating the overrides of a replica.
+ * @property replica - The ID of the replica.
+ */
+@InputType()
+export class UpdateReplicaVariablesInput extends UpdateServiceVariablesInput {
+  @Field()
+  @IsString()
+  replica: string;
+}
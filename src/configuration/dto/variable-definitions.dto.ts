@@ -1,9 +1,11 @@
 import { JSONSchemaType } from 'ajv';
-import { IsNotEmpty, IsObject } from 'class-validator';
+import { IsArray, IsNotEmpty, IsObject, IsOptional } from 'class-validator';
+import { VariableConstraint } from '../entities/service-configuration.entity';
 
 /**
  * DTO for requested variable definitions from a service sidecar.
  * @property configuration - The configuration variables.
+ * @property constraints - Optional constraints spanning several variables.
  */
 export class VariableDefinitionsDto {
   @IsNotEmpty()
@@ -12,4 +14,7 @@ export class VariableDefinitionsDto {
     string,
     { type: JSONSchemaType<any>; defaultValue: any }
   >;
+  @IsOptional()
+  @IsArray()
+  constraints?: VariableConstraint[];
 }
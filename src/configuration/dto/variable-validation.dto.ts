@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import {
+  VariableValidationError,
+  VariableValidationErrorType,
+  VariableValidationResult,
+} from '../entities/variable-validation.entity';
+
+/**
+ * DTO for a single problem found while validating configuration variables.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica, for replica variables only.
+ * @property key - The key of the variable.
+ * @property type - The type of the error.
+ * @property constraint - The name of the violated constraint.
+ * @property instancePath - The JSON pointer to the invalid part of the value.
+ * @property keyword - The JSON Schema keyword that failed.
+ * @property params - The parameters of the failed keyword.
+ * @property message - A human readable description of the error.
+ */
+export class VariableValidationErrorDto implements VariableValidationError {
+  @ApiProperty()
+  serviceName: string;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiProperty()
+  key: string;
+  @ApiProperty({
+    enum: ['unknown-variable', 'schema-violation', 'constraint-violation'],
+  })
+  type: VariableValidationErrorType;
+  @ApiPropertyOptional()
+  constraint?: string;
+  @ApiPropertyOptional()
+  instancePath?: string;
+  @ApiPropertyOptional()
+  keyword?: string;
+  @ApiPropertyOptional({ type: 'object', additionalProperties: true })
+  params?: Record<string, any>;
+  @ApiProperty()
+  message: string;
+}
+
+/**
+ * DTO for the result of validating configuration variables without applying them.
+ * @property valid - True if no error was found.
+ * @property errors - All errors that were found.
+ */
+export class VariableValidationResultDto implements VariableValidationResult {
+  @ApiProperty()
+  valid: boolean;
+  @ApiProperty({ type: [VariableValidationErrorDto] })
+  errors: VariableValidationErrorDto[];
+}
+
+/**
+ * DTO describing the body of the error response for invalid variables.
+ * @property errors - The structured validation errors.
+ */
+export class VariableValidationErrorResponseDto extends ErrorResponseDto {
+  @ApiPropertyOptional({ type: [VariableValidationErrorDto] })
+  errors?: VariableValidationErrorDto[];
+}
@@ -0,0 +1,30 @@
+import { VariableChange } from './configuration-revision.entity';
+
+/**
+ * Type of a configuration change event.
+ */
+export type ConfigurationChangeEventType =
+  | 'service-registered'
+  | 'replica-added'
+  | 'replica-removed'
+  | 'global-variables-changed'
+  | 'replica-variables-changed'
+  | 'definitions-refreshed';
+
+/**
+ * Represents a change of the configuration state, streamed to interested clients.
+ * @property type - The type of the change.
+ * @property serviceName - The name of the affected service.
+ * @property replicaId - The ID of the affected replica, for replica events only.
+ * @property revision - The revision the variable changes were recorded in, for variable events only.
+ * @property changes - The variable changes, for variable events only.
+ * @property timestamp - The time of the change.
+ */
+export interface ConfigurationChangeEvent {
+  type: ConfigurationChangeEventType;
+  serviceName: string;
+  replicaId?: string;
+  revision?: number;
+  changes?: VariableChange[];
+  timestamp: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  ConfigurationVariable,
+  ConfigurationVariableDefinition,
+} from './service-configuration.entity';
+
+/**
+ * Format of a configuration document.
+ */
+export type ConfigurationDocumentFormat = 'json' | 'yaml';
+
+/**
+ * Represents the overrides of a replica in a configuration document.
+ * @property id - The ID of the replica.
+ * @property variables - The overrides of the replica.
+ */
+export interface ReplicaDocument {
+  id: string;
+  variables: ConfigurationVariable[];
+}
+
+/**
+ * Represents the configuration of a service in a configuration document.
+ * @property name - The name of the service.
+ * @property globalVariables - The global variables of the service.
+ * @property replicas - The overrides of the replicas of the service.
+ * @property variableDefinitions - The variable definitions of the service, informational only when imported.
+ */
+export interface ServiceDocument {
+  name: string;
+  globalVariables?: ConfigurationVariable[];
+  replicas?: ReplicaDocument[];
+  variableDefinitions?: ConfigurationVariableDefinition[];
+}
+
+/**
+ * Represents the configuration of several services as it is exported to and imported from JSON or YAML files.
+ * @property exportedAt - The time the document was exported.
+ * @property services - The service configurations.
+ */
+export interface ConfigurationDocument {
+  exportedAt?: string;
+  services: ServiceDocument[];
+}
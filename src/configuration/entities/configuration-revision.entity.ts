@@ -0,0 +1,46 @@
+/**
+ * Scope of a configuration variable change.
+ * global - the change affects the global variables of the service.
+ * replica - the change affects the variables of a single replica.
+ */
+export type VariableScope = 'global' | 'replica';
+
+/**
+ * Represents the change of a single configuration variable.
+ * @property scope - Whether a global or a replica variable was changed.
+ * @property replicaId - The ID of the replica, only set for the replica scope.
+ * @property key - The key of the configuration variable.
+ * @property oldValue - The value before the change.
+ * @property newValue - The value after the change.
+ */
+export interface VariableChange {
+  scope: VariableScope;
+  replicaId?: string;
+  key: string;
+  oldValue: any;
+  newValue: any;
+}
+
+/**
+ * Optional information about who changed the configuration and why.
+ * @property actor - The user or system that made the change.
+ * @property reason - Free text describing the reason of the change.
+ */
+export interface ChangeContext {
+  actor?: string;
+  reason?: string;
+}
+
+/**
+ * Represents a numbered revision of a service configuration.
+ * @property revision - The revision number, increasing per service and starting at 1.
+ * @property serviceName - The name of the service.
+ * @property timestamp - The time the revision was created.
+ * @property changes - The variable changes of the revision.
+ */
+export interface ConfigurationRevision extends ChangeContext {
+  revision: number;
+  serviceName: string;
+  timestamp: Date;
+  changes: VariableChange[];
+}
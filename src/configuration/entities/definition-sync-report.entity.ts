@@ -0,0 +1,48 @@
+import { VariableScope } from './configuration-revision.entity';
+import { RejectedDefinition } from './rejected-definition.entity';
+
+/**
+ * How variables that vanished from the sidecar's definitions are handled.
+ * remove - the definition, the global value and all replica overrides are removed.
+ * flag - the definition is kept but flagged as deprecated, values are kept.
+ */
+export type RemovedDefinitionMode = 'remove' | 'flag';
+
+/**
+ * Represents a stored value that no longer matches its changed definition.
+ * @property scope - Whether a global value or a replica override is affected.
+ * @property replicaId - The ID of the replica, only set for the replica scope.
+ * @property key - The key of the variable.
+ * @property value - The invalid value.
+ * @property errors - The validation errors of the value.
+ */
+export interface InvalidatedValue {
+  scope: VariableScope;
+  replicaId?: string;
+  key: string;
+  value: any;
+  errors: string;
+}
+
+/**
+ * Result of re-synchronising the variable definitions of a service with its sidecar.
+ * Invalid global values are reset to the new default value, invalid replica overrides are removed.
+ * @property serviceName - The name of the service.
+ * @property added - Keys of new variables, initialised with their default value.
+ * @property removed - Keys of vanished variables that were removed.
+ * @property flagged - Keys of vanished variables that were flagged as deprecated.
+ * @property changed - Keys of variables whose schema or default value changed.
+ * @property invalidated - Values that no longer matched their changed definition.
+ * @property constraintsChanged - Whether the cross-variable constraints changed.
+ * @property rejected - Definitions and constraints that were rejected, rejected definitions keep their previous definition.
+ */
+export interface DefinitionSyncReport {
+  serviceName: string;
+  added: string[];
+  removed: string[];
+  flagged: string[];
+  changed: string[];
+  invalidated: InvalidatedValue[];
+  constraintsChanged: boolean;
+  rejected: RejectedDefinition[];
+}
@@ -0,0 +1,18 @@
+/**
+ * Kind of a rejected definition.
+ * variable - the definition of a single variable.
+ * constraint - a constraint spanning several variables.
+ */
+export type RejectedDefinitionKind = 'variable' | 'constraint';
+
+/**
+ * Represents a definition returned by a service sidecar that was rejected and is not used.
+ * @property kind - Whether a variable definition or a constraint was rejected.
+ * @property key - The key of the variable or the name of the constraint.
+ * @property reason - Why the definition was rejected.
+ */
+export interface RejectedDefinition {
+  kind: RejectedDefinitionKind;
+  key: string;
+  reason: string;
+}
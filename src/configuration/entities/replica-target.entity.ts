@@ -0,0 +1,25 @@
+import { ServiceConfiguration } from './service-configuration.entity';
+
+/**
+ * Selects replicas of a service by their metadata and optionally limits their number.
+ * @property selector - Comma separated label requirements like `zone=a,version!=2`,
+ * `version`, `host` and `zone` refer to the metadata fields, any other key to a label.
+ * All replicas match if not set.
+ * @property percentage - Optional percentage of the matching replicas to select, rounded up.
+ * @property count - Optional number of the matching replicas to select.
+ */
+export interface ReplicaTarget {
+  selector?: string;
+  percentage?: number;
+  count?: number;
+}
+
+/**
+ * Result of updating the overrides of selected replicas.
+ * @property replicaIds - The IDs of the selected replicas.
+ * @property configuration - The updated service configuration.
+ */
+export interface TargetedUpdateResult {
+  replicaIds: string[];
+  configuration: ServiceConfiguration;
+}
@@ -14,23 +14,79 @@ export interface ConfigurationVariable {
  * Represents the schema of a configuration variable.
  * @property key - The key of the configuration variable.
  * @property schema - The JSON type of the configuration variable.
+ * @property defaultValue - The default value of the configuration variable.
+ * @property deprecated - Set if the variable is no longer defined by the service sidecar.
  */
 export interface ConfigurationVariableDefinition {
   key: string;
   type: JSONSchemaType<any>;
   defaultValue: any;
+  deprecated?: boolean;
+}
+
+/**
+ * Represents a constraint spanning several configuration variables, declared by the service sidecar.
+ * The schema is a JSON Schema over the object of all effective variables by key,
+ * other variables can be referenced with `$data` JSON pointers, e.g. `{ "$data": "1/maxLatency" }`.
+ * @property name - The name of the constraint, reported when it is violated.
+ * @property description - Optional description of the constraint.
+ * @property schema - The JSON Schema the effective variables must match.
+ */
+export interface VariableConstraint {
+  name: string;
+  description?: string;
+  schema: Record<string, any>;
+}
+
+/**
+ * Liveness of a service replica, derived from the age of its last heartbeat.
+ * healthy - the last heartbeat is within the heartbeat TTL.
+ * stale - the heartbeat TTL is exceeded, but the replica is not yet considered dead.
+ * dead - the replica has not sent a heartbeat for too long and is removed.
+ */
+export type ReplicaLiveness = 'healthy' | 'stale' | 'dead';
+
+/**
+ * Represents the metadata a replica reports with its heartbeats.
+ * @property version - Optional version of the service running in the replica.
+ * @property host - Optional host the replica runs on.
+ * @property zone - Optional zone the replica runs in.
+ * @property labels - Optional arbitrary labels of the replica.
+ */
+export interface ReplicaMetadata {
+  version?: string;
+  host?: string;
+  zone?: string;
+  labels?: Record<string, string>;
 }
 
 /**
  * Represents a service replica configuration.
  * @property id - The ID of the service replica.
- * @property replicaVariables - The configuration variables of the service replica.
- * local variables override the global service variables.
+ * @property replicaVariables - The explicit overrides of the service replica.
+ * Overrides take precedence over the global service variables, variables without an override use the global value.
+ * @property lastSeen - The time of the last heartbeat of the replica.
+ * @property liveness - The liveness of the replica as determined by the last reaper run.
+ * @property metadata - The metadata reported with the last heartbeat carrying metadata.
  */
 export interface ServiceReplica {
   id: string;
   replicaVariables: ConfigurationVariable[];
   lastSeen?: Date;
+  liveness?: ReplicaLiveness;
+  metadata?: ReplicaMetadata;
+}
+
+/**
+ * Represents a replica that was removed after it stopped sending heartbeats.
+ * @property id - The ID of the removed replica.
+ * @property lastSeen - The time of the last heartbeat of the replica.
+ * @property removedAt - The time the replica was removed.
+ */
+export interface ReplicaTombstone {
+  id: string;
+  lastSeen?: Date;
+  removedAt: Date;
 }
 
 /**
@@ -39,10 +95,16 @@ export interface ServiceReplica {
  * @property replicas - The replicas of the service.
  * @property globalVariables - globally set configuration variables for all replicas.
  * The global variables are initialised with the default values from the variable definitions.
+ * @property variableDefinitions - The variable definitions queried from the service sidecar.
+ * @property variableConstraints - The cross-variable constraints queried from the service sidecar.
+ * Checked against the effective configuration of the service and of each replica before an update is applied.
+ * @property removedReplicas - Tombstones of replicas removed due to missing heartbeats, if enabled.
  */
 export interface ServiceConfiguration {
   name: string;
   replicas: ServiceReplica[];
   globalVariables: ConfigurationVariable[];
   variableDefinitions: ConfigurationVariableDefinition[];
+  variableConstraints?: VariableConstraint[];
+  removedReplicas?: ReplicaTombstone[];
 }
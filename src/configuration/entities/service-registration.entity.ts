@@ -0,0 +1,36 @@
+import { RejectedDefinition } from './rejected-definition.entity';
+
+/**
+ * State of the registration of a service.
+ * pending - the registration is waiting for its (next) attempt.
+ * fetching-definitions - the variable definitions are requested from the service sidecar.
+ * registered - the service configuration was created.
+ * failed - all attempts failed, the next heartbeat of the service restarts the registration.
+ */
+export type RegistrationState =
+  | 'pending'
+  | 'fetching-definitions'
+  | 'registered'
+  | 'failed';
+
+/**
+ * Represents the registration of a service, started by its first heartbeat.
+ * @property serviceName - The name of the service.
+ * @property state - The state of the registration.
+ * @property attempts - The number of attempts to fetch the variable definitions.
+ * @property lastError - The error of the last failed attempt.
+ * @property nextAttemptAt - The time of the next attempt, while waiting for a retry.
+ * @property queuedReplicaIds - Replicas that sent heartbeats during the registration, added once registered.
+ * @property updatedAt - The time of the last state change.
+ * @property rejectedDefinitions - Definitions and constraints of the sidecar that were rejected during the registration.
+ */
+export interface ServiceRegistration {
+  serviceName: string;
+  state: RegistrationState;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  queuedReplicaIds: string[];
+  updatedAt: Date;
+  rejectedDefinitions?: RejectedDefinition[];
+}
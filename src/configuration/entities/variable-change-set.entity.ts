@@ -0,0 +1,25 @@
+import { ConfigurationVariable } from './service-configuration.entity';
+
+/**
+ * Represents variable updates for a single replica.
+ * @property replicaId - The ID of the replica.
+ * @property variables - The added or updated overrides of the replica.
+ * @property clearedOverrides - The keys of overrides to remove, applied before the updated variables.
+ */
+export interface ReplicaVariableUpdate {
+  replicaId: string;
+  variables: ConfigurationVariable[];
+  clearedOverrides?: string[];
+}
+
+/**
+ * Represents a set of variable updates for a service, applied as a whole.
+ * @property serviceName - The name of the service.
+ * @property globalVariables - The updated global variables.
+ * @property replicas - The updated overrides per replica.
+ */
+export interface VariableChangeSet {
+  serviceName: string;
+  globalVariables?: ConfigurationVariable[];
+  replicas?: ReplicaVariableUpdate[];
+}
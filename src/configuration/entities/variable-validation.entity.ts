@@ -0,0 +1,44 @@
+/**
+ * Type of a variable validation error.
+ * unknown-variable - the service defines no variable with the key.
+ * schema-violation - the value does not match the JSON Schema of the variable.
+ * constraint-violation - the resulting effective variables violate a constraint spanning several variables.
+ */
+export type VariableValidationErrorType =
+  | 'unknown-variable'
+  | 'schema-violation'
+  | 'constraint-violation';
+
+/**
+ * Represents a single problem found while validating configuration variables.
+ * @property serviceName - The name of the service the variable belongs to.
+ * @property replicaId - The ID of the replica, only set for replica variables.
+ * @property key - The key of the variable, for constraint violations the variable the failed keyword points to, if any.
+ * @property type - The type of the error.
+ * @property constraint - The name of the violated constraint, for constraint violations only.
+ * @property instancePath - The JSON pointer to the invalid part of the value, for schema and constraint violations only.
+ * @property keyword - The JSON Schema keyword that failed, for schema and constraint violations only.
+ * @property params - The parameters of the failed keyword, for schema and constraint violations only.
+ * @property message - A human readable description of the error.
+ */
+export interface VariableValidationError {
+  serviceName: string;
+  replicaId?: string;
+  key: string;
+  type: VariableValidationErrorType;
+  constraint?: string;
+  instancePath?: string;
+  keyword?: string;
+  params?: Record<string, any>;
+  message: string;
+}
+
+/**
+ * Result of validating configuration variables without applying them.
+ * @property valid - True if no error was found.
+ * @property errors - All errors that were found.
+ */
+export interface VariableValidationResult {
+  valid: boolean;
+  errors: VariableValidationError[];
+}
@@ -0,0 +1,90 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InMemoryServiceConfigurationRepository } from './configuration.repository';
+import { ServiceConfiguration } from './entities/service-configuration.entity';
+
+// properties of the stored entities that are revived as dates
+const DATE_PROPERTIES = ['lastSeen', 'removedAt'];
+
+/**
+ * Repository class that keeps services and configurations in memory
+ * and mirrors every change into a JSON file, so the state survives a restart.
+ * The file is rewritten atomically (write to a temporary file, then rename) on every mutation.
+ */
+export class FileServiceConfigurationRepository extends InMemoryServiceConfigurationRepository {
+  private readonly logger = new Logger(FileServiceConfigurationRepository.name);
+
+  /**
+   * Creates an instance of the FileServiceConfigurationRepository class and restores the stored state.
+   * @param filePath - The path of the JSON file the configurations are stored in.
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.restore();
+  }
+
+  public create(
+    serviceConfiguration: ServiceConfiguration,
+  ): ServiceConfiguration {
+    const created = super.create(serviceConfiguration);
+    this.persist();
+    return created;
+  }
+
+  public update(
+    name: string,
+    update: Partial<ServiceConfiguration>,
+  ): ServiceConfiguration {
+    const updated = super.update(name, update);
+    this.persist();
+    return updated;
+  }
+
+  public delete(name: string): boolean {
+    const deleted = super.delete(name);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Loads the stored service configurations from the file, if it exists.
+   * @throws Error if the file exists but can not be parsed.
+   */
+  private restore() {
+    if (!fs.existsSync(this.filePath)) {
+      this.logger.log(
+        `No stored configuration found at ${this.filePath}, starting empty`,
+      );
+      return;
+    }
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    const services: ServiceConfiguration[] = JSON.parse(
+      content,
+      (key, value) =>
+        DATE_PROPERTIES.includes(key) && value ? new Date(value) : value,
+    );
+    services.forEach((service) =>
+      this.serviceConfigurations.set(service.name, service),
+    );
+    this.logger.log(
+      `Restored ${services.length} service configurations from ${this.filePath}`,
+    );
+  }
+
+  /**
+   * Writes all service configurations to the file.
+   */
+  private persist() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const temporaryPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(temporaryPath, JSON.stringify(this.findAll(), null, 2));
+      fs.renameSync(temporaryPath, this.filePath);
+    } catch (error) {
+      this.logger.error(`{persist} ${error.message}`);
+    }
+  }
+}
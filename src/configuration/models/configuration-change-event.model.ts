@@ -0,0 +1,49 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { GraphQLJSON } from 'graphql-type-json';
+import {
+  ConfigurationChangeEvent,
+  ConfigurationChangeEventType,
+} from '../entities/configuration-change-event.entity';
+import {
+  VariableChange,
+  VariableScope,
+} from '../entities/configuration-revision.entity';
+
+/**
+ * GraphQL type of the change of a configuration variable.
+ */
+@ObjectType('VariableChange')
+export class VariableChangeModel implements VariableChange {
+  @Field(() => String, { description: '`global` or `replica`' })
+  scope: VariableScope;
+  @Field({ nullable: true })
+  replicaId?: string;
+  @Field()
+  key: string;
+  @Field(() => GraphQLJSON, { nullable: true })
+  oldValue: any;
+  @Field(() => GraphQLJSON, { nullable: true })
+  newValue: any;
+}
+
+/**
+ * GraphQL type of a change of the configuration state.
+ */
+@ObjectType('ConfigurationChangeEvent')
+export class ConfigurationChangeEventModel implements ConfigurationChangeEvent {
+  @Field(() => String, {
+    description:
+      '`service-registered`, `replica-added`, `replica-removed`, `global-variables-changed`, `replica-variables-changed` or `definitions-refreshed`',
+  })
+  type: ConfigurationChangeEventType;
+  @Field()
+  serviceName: string;
+  @Field({ nullable: true })
+  replicaId?: string;
+  @Field(() => Int, { nullable: true })
+  revision?: number;
+  @Field(() => [VariableChangeModel], { nullable: true })
+  changes?: VariableChangeModel[];
+  @Field()
+  timestamp: Date;
+}
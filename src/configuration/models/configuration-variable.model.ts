@@ -0,0 +1,53 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { GraphQLJSON } from 'graphql-type-json';
+import {
+  ConfigurationVariable,
+  ConfigurationVariableDefinition,
+  VariableConstraint,
+} from '../entities/service-configuration.entity';
+
+/**
+ * GraphQL type of a configuration variable.
+ */
+@ObjectType('ConfigurationVariable')
+export class ConfigurationVariableModel implements ConfigurationVariable {
+  @Field()
+  key: string;
+  @Field(() => GraphQLJSON, { nullable: true })
+  value: any;
+}
+
+/**
+ * GraphQL type of the definition of a configuration variable.
+ */
+@ObjectType('ConfigurationVariableDefinition')
+export class ConfigurationVariableDefinitionModel
+  implements ConfigurationVariableDefinition
+{
+  @Field()
+  key: string;
+  @Field(() => GraphQLJSON, { description: 'JSON schema of the variable' })
+  type: any;
+  @Field(() => GraphQLJSON, { nullable: true })
+  defaultValue: any;
+  @Field({
+    nullable: true,
+    description: 'Set if the variable is no longer defined by the sidecar',
+  })
+  deprecated?: boolean;
+}
+
+/**
+ * GraphQL type of a constraint spanning several configuration variables.
+ */
+@ObjectType('VariableConstraint')
+export class VariableConstraintModel implements VariableConstraint {
+  @Field()
+  name: string;
+  @Field({ nullable: true })
+  description?: string;
+  @Field(() => GraphQLJSON, {
+    description: 'JSON Schema over the effective variables by key',
+  })
+  schema: Record<string, any>;
+}
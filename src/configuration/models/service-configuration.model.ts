@@ -0,0 +1,90 @@
+import { Field, ObjectType } from '@nestjs/graphql';
+import { GraphQLJSON } from 'graphql-type-json';
+import {
+  ReplicaLiveness,
+  ReplicaMetadata,
+  ReplicaTombstone,
+  ServiceConfiguration,
+  ServiceReplica,
+} from '../entities/service-configuration.entity';
+import {
+  ConfigurationVariableDefinitionModel,
+  ConfigurationVariableModel,
+  VariableConstraintModel,
+} from './configuration-variable.model';
+
+/**
+ * GraphQL type of the metadata of a replica.
+ */
+@ObjectType('ReplicaMetadata')
+export class ReplicaMetadataModel implements ReplicaMetadata {
+  @Field({ nullable: true })
+  version?: string;
+  @Field({ nullable: true })
+  host?: string;
+  @Field({ nullable: true })
+  zone?: string;
+  @Field(() => GraphQLJSON, {
+    nullable: true,
+    description: 'Arbitrary labels by name',
+  })
+  labels?: Record<string, string>;
+}
+
+/**
+ * GraphQL type of a service replica.
+ */
+@ObjectType('ServiceReplica')
+export class ServiceReplicaModel implements ServiceReplica {
+  @Field()
+  id: string;
+  @Field(() => [ConfigurationVariableModel], {
+    description: 'Explicit overrides of the replica',
+  })
+  replicaVariables: ConfigurationVariableModel[];
+  @Field(() => [ConfigurationVariableModel], {
+    description: 'Overrides merged over the global variables',
+  })
+  effectiveVariables: ConfigurationVariableModel[];
+  @Field({ nullable: true })
+  lastSeen?: Date;
+  @Field(() => String, {
+    nullable: true,
+    description: '`healthy`, `stale` or `dead`',
+  })
+  liveness?: ReplicaLiveness;
+  @Field(() => ReplicaMetadataModel, { nullable: true })
+  metadata?: ReplicaMetadataModel;
+}
+
+/**
+ * GraphQL type of a replica removed after it stopped sending heartbeats.
+ */
+@ObjectType('ReplicaTombstone')
+export class ReplicaTombstoneModel implements ReplicaTombstone {
+  @Field()
+  id: string;
+  @Field({ nullable: true })
+  lastSeen?: Date;
+  @Field()
+  removedAt: Date;
+}
+
+/**
+ * GraphQL type of a service configuration.
+ */
+@ObjectType('ServiceConfiguration')
+export class ServiceConfigurationModel implements ServiceConfiguration {
+  @Field()
+  name: string;
+  @Field(() => [ServiceReplicaModel])
+  replicas: ServiceReplicaModel[];
+  @Field(() => [ConfigurationVariableModel])
+  globalVariables: ConfigurationVariableModel[];
+  @Field(() => [ConfigurationVariableDefinitionModel])
+  variableDefinitions: ConfigurationVariableDefinitionModel[];
+  @Field(() => [VariableConstraintModel], { nullable: true })
+  variableConstraints?: VariableConstraintModel[];
+  @Field(() => [ReplicaTombstoneModel], { nullable: true })
+  removedReplicas?: ReplicaTombstoneModel[];
+}
@@ -0,0 +1,130 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigurationService } from './configuration.service';
+import { AppConfig } from 'src/app-config/app-config';
+import {
+  ReplicaLiveness,
+  ServiceReplica,
+} from './entities/service-configuration.entity';
+
+/**
+ * A replica together with its liveness and the age of its last heartbeat.
+ * @property lastSeenAgeMs - Milliseconds since the last heartbeat, undefined if the replica was never seen.
+ */
+export interface ReplicaLivenessStatus extends ServiceReplica {
+  liveness: ReplicaLiveness;
+  lastSeenAgeMs?: number;
+}
+
+/**
+ * Service for tracking the liveness of service replicas.
+ * A background reaper periodically marks replicas as healthy, stale or dead
+ * depending on the age of their last heartbeat and removes dead replicas.
+ */
+@Injectable()
+export class ReplicaLivenessService implements OnModuleInit, OnModuleDestroy {
+  // time after the last heartbeat after which a replica is dead and removed
+  private readonly deadAfterMs: number;
+  private reaper?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {
+    this.deadAfterMs = config.replicaDeadAfterMs ?? config.heartbeatTtlMs * 3;
+  }
+
+  onModuleInit() {
+    this.reaper = setInterval(
+      () => this.reap(),
+      this.config.replicaReaperIntervalMs,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.reaper);
+  }
+
+  /**
+   * Determines the liveness of a replica based on the age of its last heartbeat.
+   * Replicas that were never seen are considered healthy until they are tracked.
+   * @param replica - The replica.
+   * @param now - The reference time.
+   * @returns The liveness of the replica.
+   */
+  getLiveness(
+    replica: ServiceReplica,
+    now: Date = new Date(),
+  ): ReplicaLiveness {
+    if (!replica.lastSeen) {
+      return 'healthy';
+    }
+    const age = now.getTime() - replica.lastSeen.getTime();
+    if (age > this.deadAfterMs) {
+      return 'dead';
+    }
+    if (age > this.config.heartbeatTtlMs) {
+      return 'stale';
+    }
+    return 'healthy';
+  }
+
+  /**
+   * Retrieves the replicas of a service together with their liveness.
+   * @param serviceName - The name of the service.
+   * @param selector - Optional label selector the replicas must match.
+   * @returns The replicas with liveness and last seen age.
+   * @throws NotFoundException if the service is not found.
+   * @throws BadRequestException if the selector is invalid.
+   */
+  getReplicaStatuses(
+    serviceName: string,
+    selector?: string,
+  ): ReplicaLivenessStatus[] {
+    const now = new Date();
+    return this.configurationService
+      .findReplicas(serviceName, { selector })
+      .map((replica) => ({
+        ...replica,
+        liveness: this.getLiveness(replica, now),
+        lastSeenAgeMs: replica.lastSeen
+          ? now.getTime() - replica.lastSeen.getTime()
+          : undefined,
+      }));
+  }
+
+  /**
+   * Updates the liveness of all replicas and removes the dead ones.
+   */
+  reap() {
+    const now = new Date();
+    this.configurationService.findAllServices().forEach((service) => {
+      service.replicas.forEach((replica) => {
+        const liveness = this.getLiveness(replica, now);
+        if (liveness !== replica.liveness && liveness !== 'healthy') {
+          this.logger.warn(
+            `Replica ${replica.id} of service ${service.name} is ${liveness}`,
+          );
+        }
+        replica.liveness = liveness;
+      });
+      service.replicas
+        .filter((replica) => replica.liveness === 'dead')
+        .forEach((replica) => {
+          this.logger.log(
+            `Removing dead replica ${replica.id} of service ${service.name}`,
+          );
+          this.configurationService.deleteReplica(
+            service.name,
+            replica.id,
+            this.config.replicaTombstones,
+          );
+        });
+    });
+  }
+}
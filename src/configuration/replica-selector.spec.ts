@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  matchesLabelSelector,
+  parseLabelSelector,
+  selectReplicas,
+} from './replica-selector';
+import {
+  ReplicaMetadata,
+  ServiceReplica,
+} from './entities/service-configuration.entity';
+
+// replica without variable overrides
+const replica = (id: string, metadata?: ReplicaMetadata): ServiceReplica => ({
+  id,
+  replicaVariables: [],
+  metadata,
+});
+
+describe('parseLabelSelector', () => {
+  it('should parse equality and inequality requirements', () => {
+    expect(
+      parseLabelSelector(' zone = a,version==2, app.kubernetes.io/name!=api '),
+    ).toEqual([
+      { key: 'zone', operator: '=', value: 'a' },
+      { key: 'version', operator: '=', value: '2' },
+      { key: 'app.kubernetes.io/name', operator: '!=', value: 'api' },
+    ]);
+  });
+
+  it('should ignore empty requirements', () => {
+    expect(parseLabelSelector()).toEqual([]);
+    expect(parseLabelSelector(',zone=a,')).toEqual([
+      { key: 'zone', operator: '=', value: 'a' },
+    ]);
+  });
+
+  it('should reject invalid requirements', () => {
+    expect(() => parseLabelSelector('zone')).toThrow(BadRequestException);
+    expect(() => parseLabelSelector('zone=a b')).toThrow(BadRequestException);
+    expect(() => parseLabelSelector('=a')).toThrow(BadRequestException);
+  });
+});
+
+describe('matchesLabelSelector', () => {
+  const labelled = replica('r1', {
+    version: '2',
+    zone: 'a',
+    labels: { zone: 'b', tier: 'canary' },
+  });
+
+  it('should read metadata fields and labels', () => {
+    expect(matchesLabelSelector(labelled, parseLabelSelector('zone=a'))).toBe(
+      true,
+    );
+    expect(
+      matchesLabelSelector(
+        labelled,
+        parseLabelSelector('version=2,tier=canary'),
+      ),
+    ).toBe(true);
+    expect(
+      matchesLabelSelector(labelled, parseLabelSelector('tier!=canary')),
+    ).toBe(false);
+  });
+
+  it('should only match inequalities if the metadata is missing', () => {
+    expect(
+      matchesLabelSelector(replica('r1'), parseLabelSelector('zone=a')),
+    ).toBe(false);
+    expect(
+      matchesLabelSelector(replica('r1'), parseLabelSelector('zone!=a')),
+    ).toBe(true);
+    expect(matchesLabelSelector(replica('r1'), [])).toBe(true);
+  });
+});
+
+describe('selectReplicas', () => {
+  const replicas = [
+    replica('r3', { zone: 'a' }),
+    replica('r1', { zone: 'a' }),
+    replica('r4', { zone: 'b' }),
+    replica('r2', { zone: 'a' }),
+  ];
+  const ids = (selected: ServiceReplica[]) => selected.map(({ id }) => id);
+
+  it('should keep the order of the matching replicas without a limit', () => {
+    expect(ids(selectReplicas(replicas, { selector: 'zone=a' }))).toEqual([
+      'r3',
+      'r1',
+      'r2',
+    ]);
+  });
+
+  it('should round percentages up and select by ID', () => {
+    expect(
+      ids(selectReplicas(replicas, { selector: 'zone=a', percentage: 50 })),
+    ).toEqual(['r1', 'r2']);
+    expect(ids(selectReplicas(replicas, { percentage: 0 }))).toEqual([]);
+  });
+
+  it('should select a count of replicas by ID', () => {
+    expect(ids(selectReplicas(replicas, { count: 3 }))).toEqual([
+      'r1',
+      'r2',
+      'r3',
+    ]);
+    expect(ids(selectReplicas(replicas, { count: 10 }))).toHaveLength(4);
+  });
+
+  it('should reject a percentage together with a count', () => {
+    expect(() =>
+      selectReplicas(replicas, { percentage: 50, count: 1 }),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+import { ReplicaTarget } from './entities/replica-target.entity';
+import {
+  ReplicaMetadata,
+  ServiceReplica,
+} from './entities/service-configuration.entity';
+
+// selector keys referring to metadata fields instead of labels
+const METADATA_KEYS = ['version', 'host', 'zone'];
+// a requirement of a selector, e.g. `zone=a` or `version!=2`
+const REQUIREMENT_PATTERN = /^\s*([\w./-]+)\s*(!=|==|=)\s*([\w./-]*)\s*$/;
+
+/**
+ * A single requirement of a label selector.
+ * @property key - The metadata field or label.
+ * @property operator - `=` if the value must match, `!=` if it must not.
+ * @property value - The value.
+ */
+export interface LabelRequirement {
+  key: string;
+  operator: '=' | '!=';
+  value: string;
+}
+
+/**
+ * Parses a label selector.
+ * @param selector - Comma separated requirements like `zone=a,version!=2`.
+ * @returns The requirements, empty if the selector is empty.
+ * @throws BadRequestException if a requirement can not be parsed.
+ */
+export function parseLabelSelector(selector = ''): LabelRequirement[] {
+  return selector
+    .split(',')
+    .filter((requirement) => requirement.trim() !== '')
+    .map((requirement) => {
+      const match = REQUIREMENT_PATTERN.exec(requirement);
+      if (!match) {
+        throw new BadRequestException(
+          `Invalid selector requirement '${requirement}', expected key=value or key!=value`,
+        );
+      }
+      const [, key, operator, value] = match;
+      return { key, operator: operator === '!=' ? '!=' : '=', value };
+    });
+}
+
+/**
+ * Checks whether a replica matches all requirements of a label selector.
+ * Replicas without the metadata field or label only match `!=` requirements.
+ * @param replica - The replica.
+ * @param requirements - The parsed requirements.
+ * @returns True if the replica matches.
+ */
+export function matchesLabelSelector(
+  replica: ServiceReplica,
+  requirements: LabelRequirement[],
+): boolean {
+  return requirements.every(({ key, operator, value }) => {
+    const actual = METADATA_KEYS.includes(key)
+      ? replica.metadata?.[key as keyof Omit<ReplicaMetadata, 'labels'>]
+      : replica.metadata?.labels?.[key];
+    return (actual === value) === (operator === '=');
+  });
+}
+
+/**
+ * Selects the replicas matching a target.
+ * The matching replicas are ordered by ID before they are limited, so the same replicas are selected repeatedly.
+ * Without a limit the matching replicas keep their order.
+ * @param replicas - The replicas of a service.
+ * @param target - The selector and the optional percentage or count.
+ * @returns The selected replicas.
+ * @throws BadRequestException if the selector is invalid or both a percentage and a count are set.
+ */
+export function selectReplicas(
+  replicas: ServiceReplica[],
+  { selector, percentage, count }: ReplicaTarget,
+): ServiceReplica[] {
+  if (percentage !== undefined && count !== undefined) {
+    throw new BadRequestException(
+      'Either a percentage or a count of replicas can be selected, not both',
+    );
+  }
+  const requirements = parseLabelSelector(selector);
+  const matching = replicas.filter((replica) =>
+    matchesLabelSelector(replica, requirements),
+  );
+  if (percentage === undefined && count === undefined) {
+    return matching;
+  }
+  const limit = count ?? Math.ceil((matching.length * (percentage ?? 0)) / 100);
+  return [...matching].sort((a, b) => a.id.localeCompare(b.id)).slice(0, limit);
+}
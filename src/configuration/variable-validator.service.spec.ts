@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { VariableValidatorService } from './variable-validator.service';
+import { ConfigurationVariableDefinition } from './entities/service-configuration.entity';
+import { VariableDefinitionsDto } from './dto/variable-definitions.dto';
+
+// variable definition with a schema that is not narrowed to a value type
+const variable = (
+  key: string,
+  type: object,
+  defaultValue: unknown,
+): ConfigurationVariableDefinition => ({
+  key,
+  type: type as ConfigurationVariableDefinition['type'],
+  defaultValue,
+});
+
+describe('VariableValidatorService', () => {
+  let service: VariableValidatorService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [VariableValidatorService],
+    }).compile();
+
+    service = module.get<VariableValidatorService>(VariableValidatorService);
+  });
+
+  it('should reuse the validator of an unchanged definition', () => {
+    const definition = variable('x', { type: 'integer' }, 0);
+
+    const validate = service.getVariableValidator('a', definition);
+
+    expect(service.getVariableValidator('a', definition)).toBe(validate);
+    expect(validate(1)).toBe(true);
+    expect(validate('1')).toBe(false);
+  });
+
+  it('should recompile the validator of a replaced definition', () => {
+    const validate = service.getVariableValidator(
+      'a',
+      variable('x', { type: 'integer' }, 0),
+    );
+
+    const replaced = service.getVariableValidator(
+      'a',
+      variable('x', { type: 'string' }, ''),
+    );
+
+    expect(replaced).not.toBe(validate);
+    expect(replaced('1')).toBe(true);
+    expect(replaced(1)).toBe(false);
+  });
+
+  it('should recompile the validators of an invalidated service', () => {
+    const definition = variable('x', { type: 'integer' }, 0);
+    const validate = service.getVariableValidator('a', definition);
+
+    service.invalidate('a');
+
+    expect(service.getVariableValidator('a', definition)).not.toBe(validate);
+  });
+
+  it('should allow schemas with the same $id in different services and replaced definitions', () => {
+    const schema = () => ({ $id: 'latency', type: 'integer' });
+
+    service.getVariableValidator('a', variable('x', schema(), 0));
+
+    expect(() =>
+      service.getVariableValidator('b', variable('x', schema(), 0)),
+    ).not.toThrow();
+    expect(() =>
+      service.getVariableValidator('a', variable('x', schema(), 0)),
+    ).not.toThrow();
+  });
+
+  it('should keep the validators of other services when invalidating a service', () => {
+    const definition = variable('x', { type: 'integer' }, 0);
+    const validate = service.getVariableValidator('b', definition);
+
+    service.invalidate('a');
+
+    expect(service.getVariableValidator('b', definition)).toBe(validate);
+  });
+
+  it('should reject invalid definitions and constraints', () => {
+    // definitions as returned by a sidecar, they are not checked by the compiler
+    const definitions = {
+      configuration: {
+        valid: { type: { type: 'integer' }, defaultValue: 1 },
+        notASchema: { type: 'integer', defaultValue: 1 },
+        invalidSchema: { type: { type: 'unknown' }, defaultValue: 1 },
+        invalidDefault: { type: { type: 'string' }, defaultValue: 1 },
+      },
+      constraints: [
+        {
+          name: 'valid',
+          schema: {
+            type: 'object',
+            properties: { valid: { type: 'integer', maximum: 10 } },
+          },
+        },
+        { name: 'valid', schema: { type: 'object' } },
+        {
+          name: 'violated',
+          schema: {
+            type: 'object',
+            properties: { valid: { type: 'integer', minimum: 10 } },
+          },
+        },
+        { name: '', schema: { type: 'object' } },
+      ],
+    } as unknown as VariableDefinitionsDto;
+
+    const checked = service.checkDefinitions('a', definitions);
+
+    expect(Object.keys(checked.definitions.configuration)).toEqual(['valid']);
+    expect(checked.definitions.constraints.map(({ name }) => name)).toEqual([
+      'valid',
+    ]);
+    expect(checked.rejected).toEqual([
+      {
+        kind: 'variable',
+        key: 'notASchema',
+        reason: 'The type must be a JSON Schema object',
+      },
+      {
+        kind: 'variable',
+        key: 'invalidSchema',
+        reason: expect.stringMatching(/^Invalid JSON Schema/),
+      },
+      {
+        kind: 'variable',
+        key: 'invalidDefault',
+        reason: expect.stringMatching(/^The default value 1 does not match/),
+      },
+      {
+        kind: 'constraint',
+        key: 'valid',
+        reason: 'The name of the constraint is not unique',
+      },
+      {
+        kind: 'constraint',
+        key: 'violated',
+        reason: expect.stringMatching(/^The default values violate/),
+      },
+      {
+        kind: 'constraint',
+        key: '',
+        reason: 'The constraint must have a name',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { VariableDefinitionsDto } from './dto/variable-definitions.dto';
+import {
+  ConfigurationVariableDefinition,
+  VariableConstraint,
+} from './entities/service-configuration.entity';
+import { RejectedDefinition } from './entities/rejected-definition.entity';
+
+/**
+ * Variable definitions of a sidecar split into the accepted and the rejected ones.
+ * @property definitions - The accepted variable definitions and constraints.
+ * @property rejected - The rejected variable definitions and constraints.
+ */
+export interface CheckedDefinitions {
+  definitions: Required<VariableDefinitionsDto>;
+  rejected: RejectedDefinition[];
+}
+
+/**
+ * A compiled validator together with the schema it was compiled from.
+ */
+interface CachedValidator {
+  schema: object;
+  validate: ValidateFunction;
+}
+
+/**
+ * Service for compiling the JSON Schemas of variable definitions and constraints.
+ * Every service gets its own Ajv instance, so schemas of different services may use the same `$id`.
+ * Compiled validators are cached per service and variable or constraint,
+ * a validator is recompiled as soon as the definition it belongs to is replaced.
+ */
+@Injectable()
+export class VariableValidatorService {
+  // Ajv instances by service name
+  private readonly instances: Map<string, Ajv> = new Map();
+  // compiled validators by service name and by variable key or constraint name
+  private readonly validators: Map<string, Map<string, CachedValidator>> =
+    new Map();
+
+  /**
+   * Retrieves the validator of a variable definition.
+   * @param serviceName - The name of the service.
+   * @param definition - The variable definition.
+   * @returns The compiled validator.
+   * @throws Error if the schema of the definition can not be compiled.
+   */
+  getVariableValidator(
+    serviceName: string,
+    definition: ConfigurationVariableDefinition,
+  ): ValidateFunction {
+    return this.getValidator(
+      serviceName,
+      `variable:${definition.key}`,
+      definition.type,
+    );
+  }
+
+  /**
+   * Retrieves the validator of a constraint spanning several variables.
+   * @param serviceName - The name of the service.
+   * @param constraint - The constraint.
+   * @returns The compiled validator.
+   * @throws Error if the schema of the constraint can not be compiled.
+   */
+  getConstraintValidator(
+    serviceName: string,
+    constraint: VariableConstraint,
+  ): ValidateFunction {
+    return this.getValidator(
+      serviceName,
+      `constraint:${constraint.name}`,
+      constraint.schema,
+    );
+  }
+
+  /**
+   * Drops the cached validators of a service.
+   * @param serviceName - The name of the service.
+   */
+  invalidate(serviceName: string) {
+    this.instances.delete(serviceName);
+    this.validators.delete(serviceName);
+  }
+
+  /**
+   * Checks the variable definitions and constraints returned by a service sidecar.
+   * A variable definition is rejected if its schema does not compile or its default value does not match it,
+   * a constraint is rejected if its schema does not compile or the default values violate it.
+   * @param serviceName - The name of the service.
+   * @param definitions - The variable definitions and constraints as returned by the sidecar.
+   * @returns The accepted and the rejected definitions.
+   */
+  checkDefinitions(
+    serviceName: string,
+    definitions: VariableDefinitionsDto,
+  ): CheckedDefinitions {
+    const checked: CheckedDefinitions = {
+      definitions: { configuration: {}, constraints: [] },
+      rejected: [],
+    };
+    Object.entries(definitions.configuration).forEach(([key, definition]) => {
+      const reason = this.findDefinitionProblem(serviceName, {
+        key,
+        type: definition?.type,
+        defaultValue: definition?.defaultValue,
+      });
+      if (reason) {
+        checked.rejected.push({ kind: 'variable', key, reason });
+        return;
+      }
+      checked.definitions.configuration[key] = definition;
+    });
+    const defaultValues = Object.fromEntries(
+      Object.entries(checked.definitions.configuration).map(
+        ([key, definition]) => [key, definition.defaultValue],
+      ),
+    );
+    (definitions.constraints ?? []).forEach((constraint) => {
+      const reason = this.findConstraintProblem(
+        serviceName,
+        constraint,
+        defaultValues,
+        checked.definitions.constraints,
+      );
+      if (reason) {
+        checked.rejected.push({
+          kind: 'constraint',
+          key: typeof constraint?.name === 'string' ? constraint.name : '',
+          reason,
+        });
+        return;
+      }
+      checked.definitions.constraints.push(constraint);
+    });
+    return checked;
+  }
+
+  /**
+   * Looks for the problem of a variable definition.
+   * @param serviceName - The name of the service.
+   * @param definition - The variable definition.
+   * @returns The problem or undefined if the definition is valid.
+   */
+  private findDefinitionProblem(
+    serviceName: string,
+    definition: ConfigurationVariableDefinition,
+  ): string | undefined {
+    if (!this.isSchema(definition.type)) {
+      return 'The type must be a JSON Schema object';
+    }
+    let validate: ValidateFunction;
+    try {
+      validate = this.getVariableValidator(serviceName, definition);
+    } catch (error) {
+      return `Invalid JSON Schema: ${error.message}`;
+    }
+    if (!validate(definition.defaultValue)) {
+      return `The default value ${JSON.stringify(definition.defaultValue)} does not match the schema: ${this.getAjv(serviceName).errorsText(validate.errors)}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Looks for the problem of a constraint.
+   * @param serviceName - The name of the service.
+   * @param constraint - The constraint.
+   * @param defaultValues - The default values of the accepted variables by key.
+   * @param accepted - The constraints accepted so far.
+   * @returns The problem or undefined if the constraint is valid.
+   */
+  private findConstraintProblem(
+    serviceName: string,
+    constraint: VariableConstraint,
+    defaultValues: Record<string, any>,
+    accepted: VariableConstraint[],
+  ): string | undefined {
+    if (typeof constraint?.name !== 'string' || constraint.name === '') {
+      return 'The constraint must have a name';
+    }
+    if (accepted.some(({ name }) => name === constraint.name)) {
+      return 'The name of the constraint is not unique';
+    }
+    if (!this.isSchema(constraint.schema)) {
+      return 'The schema must be a JSON Schema object';
+    }
+    let validate: ValidateFunction;
+    try {
+      validate = this.getConstraintValidator(serviceName, constraint);
+    } catch (error) {
+      return `Invalid JSON Schema: ${error.message}`;
+    }
+    if (!validate(defaultValues)) {
+      return `The default values violate the constraint: ${this.getAjv(serviceName).errorsText(validate.errors)}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Retrieves a cached validator or compiles it, if the schema changed since it was cached.
+   * @param serviceName - The name of the service.
+   * @param cacheKey - The key of the validator within the service.
+   * @param schema - The JSON Schema.
+   * @returns The compiled validator.
+   * @throws Error if the schema can not be compiled.
+   */
+  private getValidator(
+    serviceName: string,
+    cacheKey: string,
+    schema: object,
+  ): ValidateFunction {
+    const serviceValidators = this.validators.get(serviceName) ?? new Map();
+    const cached = serviceValidators.get(cacheKey);
+    if (cached?.schema === schema) {
+      return cached.validate;
+    }
+    const ajv = this.getAjv(serviceName);
+    // the replaced schema is removed first, as the new one may reuse its `$id`
+    if (cached) {
+      ajv.removeSchema(cached.schema);
+    }
+    const validate = ajv.compile(schema);
+    serviceValidators.set(cacheKey, { schema, validate });
+    this.validators.set(serviceName, serviceValidators);
+    return validate;
+  }
+
+  /**
+   * Retrieves the Ajv instance of a service or creates it.
+   * @param serviceName - The name of the service.
+   * @returns The Ajv instance.
+   */
+  private getAjv(serviceName: string): Ajv {
+    let ajv = this.instances.get(serviceName);
+    if (!ajv) {
+      // reports all errors instead of only the first one, resolves `$data` references of constraints
+      // and supports the formats of ajv-formats such as `uri` or `date-time`
+      ajv = new Ajv({ allErrors: true, $data: true });
+      addFormats(ajv);
+      this.instances.set(serviceName, ajv);
+    }
+    return ajv;
+  }
+
+  /**
+   * Checks whether a value can be a JSON Schema.
+   * @param value - The value.
+   * @returns True if the value is an object.
+   */
+  private isSchema(value: unknown): value is object {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
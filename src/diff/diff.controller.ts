@@ -0,0 +1,127 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { DiffService } from './diff.service';
+import {
+  ConfigurationDiff,
+  DocumentDiff,
+} from './entities/configuration-diff.entity';
+import {
+  ConfigurationDiffDto,
+  DocumentDiffDto,
+} from './dto/configuration-diff.dto';
+import { parseConfigurationDocument } from 'src/configuration/configuration-document';
+import { ConfigurationDocumentDto } from 'src/configuration/dto/configuration-document.dto';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiQuery,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { RequiredRole } from 'src/auth/decorators/roles.decorator';
+
+/**
+ * Controller for comparing configurations.
+ */
+@ApiTags('diff')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('diff')
+export class DiffController {
+  /**
+   * Creates an instance of the DiffController class.
+   * @param diffService The diff service.
+   */
+  constructor(private readonly diffService: DiffService) {}
+
+  /**
+   * HTTP Endpoint to compare the effective variables of a replica with the global variables.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @returns The variables in which the replica deviates from the global variables.
+   */
+  @Get(':service/replicas/:replica/global')
+  @ApiOperation({ summary: 'Diff the variables of a replica and the globals' })
+  @ApiOkResponse({ type: ConfigurationDiffDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  diffReplicaWithGlobal(
+    @Param('service') serviceName: string,
+    @Param('replica') replicaId: string,
+  ): ConfigurationDiff {
+    return this.diffService.diffReplicaWithGlobal(serviceName, replicaId);
+  }
+
+  /**
+   * HTTP Endpoint to compare the effective variables of two replicas.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the base replica.
+   * @param otherReplicaId - The ID of the compared replica.
+   * @returns The variables in which the replicas differ.
+   */
+  @Get(':service/replicas/:replica/replicas/:other')
+  @ApiOperation({ summary: 'Diff the variables of two replicas' })
+  @ApiOkResponse({ type: ConfigurationDiffDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  diffReplicas(
+    @Param('service') serviceName: string,
+    @Param('replica') replicaId: string,
+    @Param('other') otherReplicaId: string,
+  ): ConfigurationDiff {
+    return this.diffService.diffReplicas(
+      serviceName,
+      replicaId,
+      otherReplicaId,
+    );
+  }
+
+  /**
+   * HTTP Endpoint to compare the current variables with the defaults of the variable definitions.
+   * @param serviceName - The name of the service.
+   * @param replicaId - Optional ID of a replica to compare its effective variables instead of the global variables.
+   * @returns The variables deviating from their defaults.
+   */
+  @Get(':service/defaults')
+  @ApiOperation({ summary: 'Diff the current variables and their defaults' })
+  @ApiQuery({ name: 'replica', required: false })
+  @ApiOkResponse({ type: ConfigurationDiffDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  diffWithDefaults(
+    @Param('service') serviceName: string,
+    @Query('replica') replicaId?: string,
+  ): ConfigurationDiff {
+    return this.diffService.diffWithDefaults(serviceName, replicaId);
+  }
+
+  /**
+   * HTTP Endpoint to compare the current configuration with a configuration document.
+   * The document is sent as JSON or, with a YAML content type, as YAML.
+   * Nothing is changed, so viewers may compare documents as well.
+   * @param content - The configuration document.
+   * @param serviceName - Only compare this service of the document, if set.
+   * @returns The differences per service and the services and replicas of the document that do not exist.
+   */
+  @Post('document')
+  @RequiredRole('viewer')
+  @ApiOperation({ summary: 'Diff the configuration and a document' })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: ConfigurationDocumentDto })
+  @ApiQuery({ name: 'service', required: false })
+  @ApiOkResponse({ type: DocumentDiffDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  async diffWithDocument(
+    @Body() content: unknown,
+    @Query('service') serviceName?: string,
+  ): Promise<DocumentDiff> {
+    const document = await parseConfigurationDocument(content);
+    return this.diffService.diffWithDocument(document, serviceName);
+  }
+}
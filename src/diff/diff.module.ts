@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { DiffController } from './diff.controller';
+import { DiffService } from './diff.service';
+
+/**
+ * Module for comparing configurations.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [DiffService],
+  controllers: [DiffController],
+})
+export class DiffModule {}
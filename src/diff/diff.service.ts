@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { ConfigurationDocument } from 'src/configuration/entities/configuration-document.entity';
+import {
+  ConfigurationVariable,
+  ServiceConfiguration,
+} from 'src/configuration/entities/service-configuration.entity';
+import {
+  ConfigurationDiff,
+  DocumentDiff,
+  ServiceDocumentDiff,
+} from './entities/configuration-diff.entity';
+import { diffVariables } from './variable-diff';
+
+/**
+ * Service for comparing configurations of replicas, the defaults of the variable definitions
+ * and configuration documents.
+ * Replicas are always compared with their effective variables, i.e. their overrides merged over the global variables.
+ */
+@Injectable()
+export class DiffService {
+  constructor(private readonly configurationService: ConfigurationService) {}
+
+  /**
+   * Compares the effective variables of a replica with the global variables of its service.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @returns The variables in which the replica deviates from the global variables.
+   * @throws NotFoundException if the service or replica is not found.
+   */
+  diffReplicaWithGlobal(
+    serviceName: string,
+    replicaId: string,
+  ): ConfigurationDiff {
+    const service = this.configurationService.findService(serviceName);
+    return {
+      serviceName,
+      base: 'global',
+      compared: `replica ${replicaId}`,
+      differences: diffVariables(
+        service.globalVariables,
+        this.getEffectiveVariables(service, replicaId),
+      ),
+    };
+  }
+
+  /**
+   * Compares the effective variables of two replicas of a service.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the base replica.
+   * @param otherReplicaId - The ID of the compared replica.
+   * @returns The variables in which the replicas differ.
+   * @throws NotFoundException if the service or a replica is not found.
+   */
+  diffReplicas(
+    serviceName: string,
+    replicaId: string,
+    otherReplicaId: string,
+  ): ConfigurationDiff {
+    const service = this.configurationService.findService(serviceName);
+    return {
+      serviceName,
+      base: `replica ${replicaId}`,
+      compared: `replica ${otherReplicaId}`,
+      differences: diffVariables(
+        this.getEffectiveVariables(service, replicaId),
+        this.getEffectiveVariables(service, otherReplicaId),
+      ),
+    };
+  }
+
+  /**
+   * Compares the current variables with the default values of the variable definitions.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of a replica to compare its effective variables, the global variables are compared if not set.
+   * @returns The variables deviating from their defaults.
+   * @throws NotFoundException if the service or replica is not found.
+   */
+  diffWithDefaults(serviceName: string, replicaId?: string): ConfigurationDiff {
+    const service = this.configurationService.findService(serviceName);
+    return {
+      serviceName,
+      base: 'defaults',
+      compared: replicaId ? `replica ${replicaId}` : 'global',
+      differences: diffVariables(
+        service.variableDefinitions.map((definition) => ({
+          key: definition.key,
+          value: definition.defaultValue,
+        })),
+        replicaId
+          ? this.getEffectiveVariables(service, replicaId)
+          : service.globalVariables,
+      ),
+    };
+  }
+
+  /**
+   * Compares the current configuration with a configuration document.
+   * The global variables and replica overrides contained in the document are compared with the current ones,
+   * variables missing in the document are reported as removed. Variable definitions of the document are ignored.
+   * @param document - The configuration document.
+   * @param serviceName - Only compare this service of the document, if set.
+   * @returns The differences per service and the services and replicas of the document that do not exist.
+   */
+  diffWithDocument(
+    document: ConfigurationDocument,
+    serviceName?: string,
+  ): DocumentDiff {
+    const knownServices = this.configurationService.findAllServiceNames();
+    const result: DocumentDiff = { services: [], missingServices: [] };
+    document.services
+      .filter(
+        (serviceDocument) =>
+          !serviceName || serviceDocument.name === serviceName,
+      )
+      .forEach((serviceDocument) => {
+        if (!knownServices.includes(serviceDocument.name)) {
+          result.missingServices.push(serviceDocument.name);
+          return;
+        }
+        const service = this.configurationService.findService(
+          serviceDocument.name,
+        );
+        const serviceDiff: ServiceDocumentDiff = {
+          serviceName: service.name,
+          globalVariables: serviceDocument.globalVariables
+            ? diffVariables(
+                service.globalVariables,
+                serviceDocument.globalVariables,
+              )
+            : [],
+          replicas: [],
+          missingReplicas: [],
+        };
+        serviceDocument.replicas?.forEach((replicaDocument) => {
+          const replica = service.replicas.find(
+            ({ id }) => id === replicaDocument.id,
+          );
+          if (!replica) {
+            serviceDiff.missingReplicas.push(replicaDocument.id);
+            return;
+          }
+          const differences = diffVariables(
+            replica.replicaVariables,
+            replicaDocument.variables,
+          );
+          if (differences.length > 0) {
+            serviceDiff.replicas.push({ replicaId: replica.id, differences });
+          }
+        });
+        result.services.push(serviceDiff);
+      });
+    return result;
+  }
+
+  /**
+   * Retrieves the effective variables of a replica.
+   * @param service - The service configuration.
+   * @param replicaId - The ID of the replica.
+   * @returns The effective variables.
+   * @throws NotFoundException if the replica is not found.
+   */
+  private getEffectiveVariables(
+    service: ServiceConfiguration,
+    replicaId: string,
+  ): ConfigurationVariable[] {
+    return this.configurationService.getEffectiveVariables(
+      service,
+      this.configurationService.findReplica(service.name, replicaId),
+    );
+  }
+}
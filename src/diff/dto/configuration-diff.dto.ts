@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  ConfigurationDiff,
+  DifferenceType,
+  DocumentDiff,
+  ReplicaDocumentDiff,
+  ServiceDocumentDiff,
+  ValueDifference,
+  VariableDifference,
+} from '../entities/configuration-diff.entity';
+
+// types of differences documented in the API
+const DIFFERENCE_TYPES = ['added', 'removed', 'changed'];
+
+/**
+ * DTO for a difference inside an object or array value.
+ * @property path - The JSON pointer of the differing part relative to the value.
+ * @property type - The type of the difference.
+ * @property oldValue - The base value, missing if added.
+ * @property newValue - The compared value, missing if removed.
+ */
+export class ValueDifferenceDto implements ValueDifference {
+  @ApiProperty({ example: '/targets/1' })
+  path: string;
+  @ApiProperty({ enum: DIFFERENCE_TYPES })
+  type: DifferenceType;
+  @ApiPropertyOptional(ANY_VALUE)
+  oldValue?: any;
+  @ApiPropertyOptional(ANY_VALUE)
+  newValue?: any;
+}
+
+/**
+ * DTO for the difference of a variable.
+ * @property key - The key of the variable.
+ * @property type - The type of the difference.
+ * @property oldValue - The base value, missing if added.
+ * @property newValue - The compared value, missing if removed.
+ * @property differences - The deep differences of object or array values.
+ */
+export class VariableDifferenceDto implements VariableDifference {
+  @ApiProperty({ example: 'latency' })
+  key: string;
+  @ApiProperty({ enum: DIFFERENCE_TYPES })
+  type: DifferenceType;
+  @ApiPropertyOptional(ANY_VALUE)
+  oldValue?: any;
+  @ApiPropertyOptional(ANY_VALUE)
+  newValue?: any;
+  @ApiPropertyOptional({
+    type: [ValueDifferenceDto],
+    description: 'Set if both values are objects or both are arrays',
+  })
+  differences?: ValueDifferenceDto[];
+}
+
+/**
+ * DTO for the differences between two sets of variables of a service.
+ * @property serviceName - The name of the service.
+ * @property base - The base configuration.
+ * @property compared - The configuration compared to the base.
+ * @property differences - The differing variables.
+ */
+export class ConfigurationDiffDto implements ConfigurationDiff {
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty({ example: 'global' })
+  base: string;
+  @ApiProperty({ example: 'replica r1' })
+  compared: string;
+  @ApiProperty({ type: [VariableDifferenceDto] })
+  differences: VariableDifferenceDto[];
+}
+
+/**
+ * DTO for the differences of the overrides of a replica to a configuration document.
+ * @property replicaId - The ID of the replica.
+ * @property differences - The differing overrides.
+ */
+export class ReplicaDocumentDiffDto implements ReplicaDocumentDiff {
+  @ApiProperty()
+  replicaId: string;
+  @ApiProperty({ type: [VariableDifferenceDto] })
+  differences: VariableDifferenceDto[];
+}
+
+/**
+ * DTO for the differences of a service to a configuration document.
+ * @property serviceName - The name of the service.
+ * @property globalVariables - The differing global variables.
+ * @property replicas - The replicas with differing overrides.
+ * @property missingReplicas - The replicas of the document that do not exist.
+ */
+export class ServiceDocumentDiffDto implements ServiceDocumentDiff {
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty({ type: [VariableDifferenceDto] })
+  globalVariables: VariableDifferenceDto[];
+  @ApiProperty({ type: [ReplicaDocumentDiffDto] })
+  replicas: ReplicaDocumentDiffDto[];
+  @ApiProperty({ type: [String] })
+  missingReplicas: string[];
+}
+
+/**
+ * DTO for the differences of the current configuration to a configuration document.
+ * @property services - The differences per service.
+ * @property missingServices - The services of the document that do not exist.
+ */
+export class DocumentDiffDto implements DocumentDiff {
+  @ApiProperty({ type: [ServiceDocumentDiffDto] })
+  services: ServiceDocumentDiffDto[];
+  @ApiProperty({ type: [String] })
+  missingServices: string[];
+}
@@ -0,0 +1,85 @@
+/**
+ * Type of a difference.
+ * added - the key or element only exists in the compared configuration.
+ * removed - the key or element only exists in the base configuration.
+ * changed - the value differs.
+ */
+export type DifferenceType = 'added' | 'removed' | 'changed';
+
+/**
+ * Represents a difference inside an object or array value.
+ * @property path - The JSON pointer of the differing part relative to the value, empty for the value itself.
+ * @property type - The type of the difference.
+ * @property oldValue - The value in the base configuration, not set if added.
+ * @property newValue - The value in the compared configuration, not set if removed.
+ */
+export interface ValueDifference {
+  path: string;
+  type: DifferenceType;
+  oldValue?: any;
+  newValue?: any;
+}
+
+/**
+ * Represents the difference of a variable.
+ * @property key - The key of the variable.
+ * @property type - The type of the difference.
+ * @property oldValue - The value in the base configuration, not set if added.
+ * @property newValue - The value in the compared configuration, not set if removed.
+ * @property differences - The deep differences if both values are objects or both are arrays.
+ */
+export interface VariableDifference {
+  key: string;
+  type: DifferenceType;
+  oldValue?: any;
+  newValue?: any;
+  differences?: ValueDifference[];
+}
+
+/**
+ * Represents the differences between two sets of variables of a service.
+ * @property serviceName - The name of the service.
+ * @property base - The base configuration, e.g. `global`, `defaults` or `replica r1`.
+ * @property compared - The configuration compared to the base.
+ * @property differences - The differing variables, unchanged variables are omitted.
+ */
+export interface ConfigurationDiff {
+  serviceName: string;
+  base: string;
+  compared: string;
+  differences: VariableDifference[];
+}
+
+/**
+ * Represents the differences of the overrides of a replica to a configuration document.
+ * @property replicaId - The ID of the replica.
+ * @property differences - The differing overrides.
+ */
+export interface ReplicaDocumentDiff {
+  replicaId: string;
+  differences: VariableDifference[];
+}
+
+/**
+ * Represents the differences of a service to a configuration document.
+ * @property serviceName - The name of the service.
+ * @property globalVariables - The differing global variables.
+ * @property replicas - The replicas with differing overrides.
+ * @property missingReplicas - The IDs of replicas of the document that do not exist.
+ */
+export interface ServiceDocumentDiff {
+  serviceName: string;
+  globalVariables: VariableDifference[];
+  replicas: ReplicaDocumentDiff[];
+  missingReplicas: string[];
+}
+
+/**
+ * Represents the differences of the current configuration to a configuration document.
+ * @property services - The differences of the services contained in the document.
+ * @property missingServices - The names of services of the document that do not exist.
+ */
+export interface DocumentDiff {
+  services: ServiceDocumentDiff[];
+  missingServices: string[];
+}
@@ -0,0 +1,64 @@
+import { diffValues, diffVariables } from './variable-diff';
+
+describe('diffValues', () => {
+  it('should compare primitives as a whole', () => {
+    expect(diffValues(1, 1)).toEqual([]);
+    expect(diffValues(1, '1')).toEqual([
+      { path: '', type: 'changed', oldValue: 1, newValue: '1' },
+    ]);
+  });
+
+  it('should diff nested objects and arrays by key and index', () => {
+    expect(
+      diffValues(
+        { a: 1, b: { c: [1, 2] }, 'x/y': true },
+        { a: 1, b: { c: [1, 3, 4] }, d: null },
+      ),
+    ).toEqual([
+      { path: '/b/c/1', type: 'changed', oldValue: 2, newValue: 3 },
+      { path: '/b/c/2', type: 'added', newValue: 4 },
+      { path: '/x~1y', type: 'removed', oldValue: true },
+      { path: '/d', type: 'added', newValue: null },
+    ]);
+  });
+
+  it('should compare objects and arrays with each other as a whole', () => {
+    expect(diffValues({ 0: 1 }, [1])).toEqual([
+      { path: '', type: 'changed', oldValue: { 0: 1 }, newValue: [1] },
+    ]);
+  });
+});
+
+describe('diffVariables', () => {
+  it('should report added, removed and changed variables', () => {
+    expect(
+      diffVariables(
+        [
+          { key: 'latency', value: 0 },
+          { key: 'enabled', value: false },
+          { key: 'same', value: { a: 1 } },
+        ],
+        [
+          { key: 'latency', value: 100 },
+          { key: 'same', value: { a: 1 } },
+          { key: 'errorRate', value: 0.5 },
+        ],
+      ),
+    ).toEqual([
+      { key: 'latency', type: 'changed', oldValue: 0, newValue: 100 },
+      { key: 'enabled', type: 'removed', oldValue: false },
+      { key: 'errorRate', type: 'added', newValue: 0.5 },
+    ]);
+  });
+
+  it('should include deep differences of structured values', () => {
+    const [difference] = diffVariables(
+      [{ key: 'targets', value: ['a', 'b'] }],
+      [{ key: 'targets', value: ['a', 'c'] }],
+    );
+
+    expect(difference.differences).toEqual([
+      { path: '/1', type: 'changed', oldValue: 'b', newValue: 'c' },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { ConfigurationVariable } from 'src/configuration/entities/service-configuration.entity';
+import {
+  ValueDifference,
+  VariableDifference,
+} from './entities/configuration-diff.entity';
+
+/**
+ * Checks whether a value is an object or an array, whose parts are compared individually.
+ * @param value - The value.
+ * @returns True for objects and arrays, false for primitives and null.
+ */
+function isStructured(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks whether two values are both objects or both arrays.
+ * @param oldValue - The base value.
+ * @param newValue - The compared value.
+ * @returns True if the parts of the values can be compared.
+ */
+function isComparable(oldValue: unknown, newValue: unknown): boolean {
+  return (
+    isStructured(oldValue) &&
+    isStructured(newValue) &&
+    Array.isArray(oldValue) === Array.isArray(newValue)
+  );
+}
+
+/**
+ * Escapes a key for use in a JSON pointer.
+ * @param key - The object key or array index.
+ * @returns The escaped key.
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Computes the deep differences between two values.
+ * Objects and arrays are compared key by key and index by index,
+ * all other values and values of different kinds are compared as a whole.
+ * @param oldValue - The base value.
+ * @param newValue - The compared value.
+ * @param path - The JSON pointer of the values, empty for the root.
+ * @returns The differences, empty if the values are equal.
+ */
+export function diffValues(
+  oldValue: unknown,
+  newValue: unknown,
+  path = '',
+): ValueDifference[] {
+  if (!isComparable(oldValue, newValue)) {
+    return oldValue === newValue
+      ? []
+      : [{ path, type: 'changed', oldValue, newValue }];
+  }
+  const oldObject = oldValue as Record<string, unknown>;
+  const newObject = newValue as Record<string, unknown>;
+  const keys = new Set([...Object.keys(oldObject), ...Object.keys(newObject)]);
+  return [...keys].flatMap((key): ValueDifference[] => {
+    const childPath = `${path}/${escapePointer(key)}`;
+    if (!(key in oldObject)) {
+      return [{ path: childPath, type: 'added', newValue: newObject[key] }];
+    }
+    if (!(key in newObject)) {
+      return [{ path: childPath, type: 'removed', oldValue: oldObject[key] }];
+    }
+    return diffValues(oldObject[key], newObject[key], childPath);
+  });
+}
+
+/**
+ * Computes the differences between two sets of variables, matched by key.
+ * @param base - The base variables.
+ * @param compared - The variables compared to the base.
+ * @returns The differing variables in the order of their first occurrence, unchanged variables are omitted.
+ */
+export function diffVariables(
+  base: ConfigurationVariable[],
+  compared: ConfigurationVariable[],
+): VariableDifference[] {
+  const keys = new Set([...base, ...compared].map(({ key }) => key));
+  return [...keys].flatMap((key): VariableDifference[] => {
+    const oldVariable = base.find((variable) => variable.key === key);
+    const newVariable = compared.find((variable) => variable.key === key);
+    if (!oldVariable) {
+      return [{ key, type: 'added', newValue: newVariable?.value }];
+    }
+    if (!newVariable) {
+      return [{ key, type: 'removed', oldValue: oldVariable.value }];
+    }
+    const differences = diffValues(oldVariable.value, newVariable.value);
+    if (differences.length === 0) {
+      return [];
+    }
+    return [
+      {
+        key,
+        type: 'changed',
+        oldValue: oldVariable.value,
+        newValue: newVariable.value,
+        differences: isComparable(oldVariable.value, newVariable.value)
+          ? differences
+          : undefined,
+      },
+    ];
+  });
+}
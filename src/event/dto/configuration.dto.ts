@@ -1,3 +1,4 @@
+import { ApiProperty } from '@nestjs/swagger';
 import {
   IsArray,
   IsNotEmpty,
@@ -23,8 +24,10 @@ export class ConfigurationDto {
  * @property variables - The updated variables for the replica.
  */
 export class ReplicaConfiguration {
+  @ApiProperty()
   @IsString()
   replicaId: string;
+  @ApiProperty({ type: 'object', additionalProperties: true })
   @IsObject()
   variables: Record<string, any>;
 }
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for a programmatic Dapr subscription.
+ * @property pubsubName - The name of the pub/sub component.
+ * @property topic - The subscribed topic.
+ * @property route - The route the events are delivered to.
+ */
+export class DaprSubscriptionDto {
+  @ApiProperty({ example: 'experiment-config-pubsub' })
+  pubsubName: string;
+  @ApiProperty({ example: 'heartbeat' })
+  topic: string;
+  @ApiProperty({ example: 'heartbeat' })
+  route: string;
+}
@@ -1,13 +1,33 @@
-import { IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsOptional, IsString, ValidateNested } from 'class-validator';
+import { ReplicaMetadataDto } from 'src/configuration/dto/service-configuration.dto';
 
 /**
  * DTO for a service replica heartbeat.
  * @property ServiceName - The unique name of the service.
  * @property ReplicaId - The unique ID of the replica.
+ * @property metadata - Optional metadata of the replica like its version, host, zone and labels.
  */
 export class HeartbeatDto {
+  @ApiProperty()
   @IsString()
   serviceName: string;
+  @ApiProperty()
   @IsString()
   replicaId: string;
+  @ApiPropertyOptional({ type: ReplicaMetadataDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReplicaMetadataDto)
+  metadata?: ReplicaMetadataDto;
+}
+
+/**
+ * DTO describing the CloudEvent a heartbeat is delivered in by Dapr.
+ * @property data - The heartbeat.
+ */
+export class HeartbeatEventDto {
+  @ApiProperty({ type: HeartbeatDto })
+  data: HeartbeatDto;
 }
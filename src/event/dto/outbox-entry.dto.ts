@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ReplicaConfiguration } from './configuration.dto';
+import {
+  OutboxEntry,
+  OutboxEntryState,
+  OutboxReplayResult,
+} from '../entities/outbox-entry.entity';
+
+/**
+ * DTO for the filters of an outbox query.
+ * @property service - Only include entries of this service.
+ * @property state - Only include entries in this state.
+ */
+export class OutboxQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  service?: string;
+  @ApiPropertyOptional({ enum: ['pending', 'dead'] })
+  @IsOptional()
+  @IsIn(['pending', 'dead'])
+  state?: OutboxEntryState;
+}
+
+/**
+ * DTO for an entry of the publish outbox.
+ */
+export class OutboxEntryDto implements OutboxEntry {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+  @ApiProperty()
+  serviceName: string;
+  @ApiProperty()
+  replicaId: string;
+  @ApiProperty({ type: ReplicaConfiguration })
+  configuration: ReplicaConfiguration;
+  @ApiProperty({ enum: ['pending', 'dead'] })
+  state: OutboxEntryState;
+  @ApiProperty({ description: 'Number of failed publish attempts' })
+  attempts: number;
+  @ApiProperty({
+    description:
+      'Number of older configurations of the replica replaced by this entry',
+  })
+  supersededCount: number;
+  @ApiPropertyOptional()
+  lastError?: string;
+  @ApiProperty()
+  createdAt: Date;
+  @ApiPropertyOptional()
+  nextAttemptAt?: Date;
+}
+
+/**
+ * DTO for the result of replaying outbox entries.
+ */
+export class OutboxReplayResultDto implements OutboxReplayResult {
+  @ApiProperty()
+  replayed: number;
+  @ApiProperty({ type: [OutboxEntryDto] })
+  entries: OutboxEntryDto[];
+}
@@ -0,0 +1,45 @@
+import { ReplicaConfiguration } from '../dto/configuration.dto';
+
+/**
+ * State of an outbox entry.
+ * pending - the configuration waits for its (next) publish attempt.
+ * dead - all attempts failed, the entry is kept until it is replayed or superseded.
+ */
+export type OutboxEntryState = 'pending' | 'dead';
+
+/**
+ * Represents the configuration of a replica that is to be published.
+ * Only the latest configuration of a replica is kept, older ones are superseded.
+ * @property id - The unique ID of the entry.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica.
+ * @property configuration - The configuration to publish.
+ * @property state - The state of the entry.
+ * @property attempts - The number of failed publish attempts.
+ * @property supersededCount - The number of older configurations of the replica this entry replaced.
+ * @property lastError - The error of the last failed attempt.
+ * @property createdAt - The time the entry was enqueued.
+ * @property nextAttemptAt - The time of the next attempt, for pending entries only.
+ */
+export interface OutboxEntry {
+  id: string;
+  serviceName: string;
+  replicaId: string;
+  configuration: ReplicaConfiguration;
+  state: OutboxEntryState;
+  attempts: number;
+  supersededCount: number;
+  lastError?: string;
+  createdAt: Date;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Represents the result of manually replaying outbox entries.
+ * @property replayed - The number of entries that were queued for an immediate publish.
+ * @property entries - The queued entries.
+ */
+export interface OutboxReplayResult {
+  replayed: number;
+  entries: OutboxEntry[];
+}
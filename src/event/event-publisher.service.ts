@@ -1,5 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DaprClient, CommunicationProtocolEnum } from '@dapr/dapr';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { AppConfig } from 'src/app-config/app-config';
 
 /**
  * Service for publishing events to Dapr pubsub components.
@@ -11,14 +13,13 @@ export class EventPublisherService {
   // Logger instance for logging.
   private readonly logger = new Logger(EventPublisherService.name);
 
-  constructor() {
-    // Dapr sidecar host
-    const daprHost = '127.0.0.1';
-    // Dapr sidecar HTTP port
-    const daprPort = '3500';
+  constructor(
+    private readonly metricsService: MetricsService,
+    config: AppConfig,
+  ) {
     this.daprClient = new DaprClient({
-      daprHost,
-      daprPort,
+      daprHost: config.daprHost,
+      daprPort: String(config.daprHttpPort),
       communicationProtocol: CommunicationProtocolEnum.HTTP,
     });
   }
@@ -30,17 +31,30 @@ export class EventPublisherService {
    * @param topic - The topic to which the event will be published.
    * @param data - The data of the event.
    * @returns A promise that resolves when the event is published successfully, or rejects with an error if there was an issue.
+   * @throws Error if the event could not be published.
    */
   async publishEvent(
     pubsubName: string,
     topic: string,
     data: any,
   ): Promise<void> {
+    const endPublish = this.metricsService.startPublish();
     try {
-      await this.daprClient.pubsub.publish(pubsubName, topic, data);
+      // the client reports failed publishes in the response instead of throwing
+      const { error } = await this.daprClient.pubsub.publish(
+        pubsubName,
+        topic,
+        data,
+      );
+      if (error) {
+        throw error;
+      }
+      endPublish('success');
       this.logger.log(`Published event to topic "${topic}"`);
     } catch (error) {
+      endPublish('failure');
       this.logger.error(`Error publishing event to topic "${topic}": ${error}`);
+      throw error;
     }
   }
 }
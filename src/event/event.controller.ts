@@ -1,14 +1,28 @@
 import { Body, Controller, Get, Logger, Post } from '@nestjs/common';
 import { EventService } from './events.service';
-import { HeartbeatDto } from './dto/heartbeat.dto';
+import { HeartbeatDto, HeartbeatEventDto } from './dto/heartbeat.dto';
+import { DaprSubscriptionDto } from './dto/dapr-subscription.dto';
+import {
+  ApiBody,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { AppConfig } from 'src/app-config/app-config';
 
 /**
  * Controller for handling events.
+ * Called by the Dapr sidecar, so it is reachable without authentication.
  */
+@ApiTags('events')
+@Public()
 @Controller()
 export class EventController {
   constructor(
     private readonly eventService: EventService,
+    private readonly config: AppConfig,
     private readonly logger: Logger,
   ) {}
 
@@ -18,11 +32,13 @@ export class EventController {
    * @returns A promise that resolves to an array of objects containing the pubsubName, topic, and route.
    */
   @Get('/dapr/subscribe')
-  async subscribe(): Promise<any> {
+  @ApiOperation({ summary: 'Get the Dapr subscriptions of the service' })
+  @ApiOkResponse({ type: [DaprSubscriptionDto] })
+  async subscribe(): Promise<DaprSubscriptionDto[]> {
     return [
       {
-        pubsubName: 'experiment-config-pubsub',
-        topic: 'heartbeat',
+        pubsubName: this.config.heartbeatPubsubName,
+        topic: this.config.heartbeatTopic,
         route: 'heartbeat',
       },
     ];
@@ -35,10 +51,13 @@ export class EventController {
    * @returns A promise that resolves to void.
    */
   @Post('heartbeat')
+  @ApiOperation({ summary: 'Receive a heartbeat of a service replica' })
+  @ApiBody({ type: HeartbeatEventDto })
+  @ApiCreatedResponse({ description: 'The heartbeat was processed' })
   async processHeartbeat(@Body('data') event: HeartbeatDto): Promise<void> {
     // Extract the order context from the event
-    const { serviceName, replicaId } = event;
+    const { serviceName, replicaId, metadata } = event;
 
-    this.eventService.heartbeat(serviceName, replicaId);
+    this.eventService.heartbeat(serviceName, replicaId, metadata);
   }
 }
@@ -2,6 +2,8 @@ import { Logger, Module, forwardRef } from '@nestjs/common';
 import { EventPublisherService } from './event-publisher.service';
 import { EventService } from './events.service';
 import { EventController } from './event.controller';
+import { OutboxService } from './outbox.service';
+import { OutboxController } from './outbox.controller';
 import { ConfigurationModule } from 'src/configuration/configuration.module';
 
 /**
@@ -12,8 +14,8 @@ import { ConfigurationModule } from 'src/configuration/configuration.module';
     // To avoid circular dependencies, forwardRef() is used
     forwardRef(() => ConfigurationModule),
   ],
-  providers: [EventPublisherService, EventService, Logger],
-  controllers: [EventController],
+  providers: [EventPublisherService, OutboxService, EventService, Logger],
+  controllers: [EventController, OutboxController],
   exports: [EventService, EventPublisherService],
 })
 export class EventModule {}
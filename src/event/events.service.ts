@@ -4,8 +4,12 @@ import {
   ConfigurationDto,
   ReplicaConfiguration,
 } from './dto/configuration.dto';
-import { ServiceReplica } from 'src/configuration/entities/service-configuration.entity';
-import { EventPublisherService } from './event-publisher.service';
+import {
+  ReplicaMetadata,
+  ServiceReplica,
+} from 'src/configuration/entities/service-configuration.entity';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { OutboxService } from './outbox.service';
 
 /**
  * Service for handling events.
@@ -16,7 +20,8 @@ export class EventService {
     // use forward reference to avoid circular dependency
     @Inject(forwardRef(() => ConfigurationService))
     private readonly configurationService: ConfigurationService,
-    private readonly eventPublisherService: EventPublisherService,
+    private readonly outboxService: OutboxService,
+    private readonly metricsService: MetricsService,
     private readonly logger: Logger,
   ) {}
 
@@ -24,16 +29,27 @@ export class EventService {
    * Forwards a heartbeat event to the configuration module.
    * @param serviceName - The name of the service.
    * @param replicaId - The id of the replica.
+   * @param metadata - Optional metadata of the replica.
    * @returns A promise that resolves to void.
    */
-  async heartbeat(serviceName: string, replicaId: string): Promise<any> {
-    return this.configurationService.heartbeat(serviceName, replicaId);
+  async heartbeat(
+    serviceName: string,
+    replicaId: string,
+    metadata?: ReplicaMetadata,
+  ): Promise<any> {
+    this.metricsService.recordHeartbeat(serviceName);
+    return this.configurationService.heartbeat(
+      serviceName,
+      replicaId,
+      metadata,
+    );
   }
 
   /**
-   * Publishes a configuration.
+   * Publishes a configuration through the outbox, which retries failed publishes.
    * This event leads to the replica adjusting its configuration via the experiment-config sidecar.
-   * @param configuration - The changed replica configurations.
+   * @param serviceName - The name of the service.
+   * @param configurations - The changed replica configurations.
    */
   publishConfiguration(
     serviceName: string,
@@ -41,31 +57,37 @@ export class EventService {
   ): void {
     this.logger.log(`Publishing new configuration for service ${serviceName}`);
     // transform configurations to event payload
-    const configurationDto = this.buildConfigurationDto(configurations);
-    this.eventPublisherService.publishEvent(
-      'pubsub',
-      `config/${serviceName}`,
-      configurationDto,
+    const configurationDto = this.buildConfigurationDto(
+      serviceName,
+      configurations,
     );
+    this.outboxService.enqueue(serviceName, configurationDto.configurations);
   }
 
   /**
    * Builds a configuration DTO from the given service replicas.
+   * Each replica receives its effective variables, i.e. its overrides merged over the global variables.
+   * @param serviceName - The name of the service the replicas belong to.
    * @param configurations - The service replicas to build the DTO from.
    * @returns The configuration DTO.
    */
   private buildConfigurationDto(
+    serviceName: string,
     configurations: ServiceReplica[],
   ): ConfigurationDto {
+    const service = this.configurationService.findService(serviceName);
     const replicaConfigurations: ReplicaConfiguration[] = configurations.map(
       (replica) => {
-        const valueMap: Record<string, any> = replica.replicaVariables.reduce(
-          (accumulator, currentConfiguration) => {
-            accumulator[currentConfiguration.key] = currentConfiguration.value;
-            return accumulator;
-          },
-          {} as Record<string, any>,
-        );
+        const valueMap: Record<string, any> = this.configurationService
+          .getEffectiveVariables(service, replica)
+          .reduce(
+            (accumulator, currentConfiguration) => {
+              accumulator[currentConfiguration.key] =
+                currentConfiguration.value;
+              return accumulator;
+            },
+            {} as Record<string, any>,
+          );
         return {
           replicaId: replica.id,
           variables: valueMap,
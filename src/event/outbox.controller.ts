@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiAcceptedResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { OutboxService } from './outbox.service';
+import {
+  OutboxEntryDto,
+  OutboxQueryDto,
+  OutboxReplayResultDto,
+} from './dto/outbox-entry.dto';
+import {
+  OutboxEntry,
+  OutboxReplayResult,
+} from './entities/outbox-entry.entity';
+
+/**
+ * Controller for inspecting and replaying configuration publishes.
+ */
+@ApiTags('outbox')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('outbox')
+export class OutboxController {
+  /**
+   * Creates an instance of the OutboxController class.
+   * @param outboxService The outbox service.
+   */
+  constructor(private readonly outboxService: OutboxService) {}
+
+  /**
+   * HTTP Endpoint to retrieve the pending and dead-lettered publishes.
+   * @param query - The optional service and state to filter by.
+   * @returns The outbox entries, oldest first.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the pending and dead-lettered publishes' })
+  @ApiOkResponse({ type: [OutboxEntryDto] })
+  getEntries(@Query() query: OutboxQueryDto): OutboxEntry[] {
+    return this.outboxService.findAll(query.service, query.state);
+  }
+
+  /**
+   * HTTP Endpoint to queue the pending and dead-lettered configurations for an immediate publish.
+   * @param query - The optional service and state to filter by.
+   * @returns The number of replayed entries and the queued entries.
+   */
+  @Post('replay')
+  @ApiOperation({ summary: 'Replay pending and dead-lettered publishes' })
+  @ApiAcceptedResponse({ type: OutboxReplayResultDto })
+  @HttpCode(HttpStatus.ACCEPTED)
+  replayEntries(@Query() query: OutboxQueryDto): OutboxReplayResult {
+    return this.outboxService.replay(
+      this.outboxService.findAll(query.service, query.state),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to queue a pending or dead-lettered configuration for an immediate publish.
+   * @param id - The ID of the outbox entry.
+   * @returns The queued entry.
+   */
+  @Post(':id/replay')
+  @ApiOperation({ summary: 'Replay a pending or dead-lettered publish' })
+  @ApiAcceptedResponse({ type: OutboxReplayResultDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @HttpCode(HttpStatus.ACCEPTED)
+  replayEntry(@Param('id') id: string): OutboxReplayResult {
+    return this.outboxService.replay([this.outboxService.findOne(id)]);
+  }
+}
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { OutboxService } from './outbox.service';
+import { EventPublisherService } from './event-publisher.service';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { AppConfig } from 'src/app-config/app-config';
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let config: AppConfig;
+  let publishEvent: jest.Mock;
+
+  // queues a configuration of a replica and waits for its first publish
+  const enqueue = async (replicaId: string, latency = 0) => {
+    service.enqueue('svc', [{ replicaId, variables: { latency } }]);
+    await service.dispatch();
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    config = new AppConfig();
+    publishEvent = jest.fn().mockRejectedValue(new Error('unavailable'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        MetricsService,
+        { provide: EventPublisherService, useValue: { publishEvent } },
+        { provide: AppConfig, useValue: config },
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should publish the configurations of a service in one event', async () => {
+    publishEvent.mockResolvedValue(undefined);
+
+    service.enqueue('svc', [
+      { replicaId: 'r1', variables: { latency: 1 } },
+      { replicaId: 'r2', variables: { latency: 2 } },
+    ]);
+    await service.dispatch();
+
+    expect(publishEvent).toHaveBeenCalledTimes(1);
+    expect(publishEvent).toHaveBeenCalledWith('pubsub', 'config/svc', {
+      configurations: [
+        { replicaId: 'r1', variables: { latency: 1 } },
+        { replicaId: 'r2', variables: { latency: 2 } },
+      ],
+    });
+    expect(service.findAll()).toEqual([]);
+  });
+
+  it('should retry failed publishes with exponential backoff', async () => {
+    await enqueue('r1');
+    expect(service.findAll()).toEqual([
+      expect.objectContaining({
+        state: 'pending',
+        attempts: 1,
+        lastError: 'Error: unavailable',
+      }),
+    ]);
+
+    jest.advanceTimersByTime(999);
+    await service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(2);
+    // the backoff is doubled for the second retry
+    jest.advanceTimersByTime(1999);
+    await service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(2);
+
+    publishEvent.mockResolvedValue(undefined);
+    jest.advanceTimersByTime(1);
+    await service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(3);
+    expect(service.findAll()).toEqual([]);
+  });
+
+  it('should limit the backoff', async () => {
+    config.outboxMaxBackoffMs = 1500;
+    await enqueue('r1');
+    jest.advanceTimersByTime(1000);
+    await service.dispatch();
+
+    expect(service.findAll()[0].nextAttemptAt).toEqual(
+      new Date(Date.now() + 1500),
+    );
+  });
+
+  it('should dead-letter entries after the maximum number of attempts', async () => {
+    config.outboxMaxAttempts = 2;
+    await enqueue('r1');
+    jest.advanceTimersByTime(1000);
+    await service.dispatch();
+
+    expect(service.findAll(undefined, 'dead')).toEqual([
+      expect.objectContaining({ attempts: 2, nextAttemptAt: undefined }),
+    ]);
+    // dead-lettered entries are not retried
+    jest.advanceTimersByTime(60000);
+    await service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should supersede the queued configuration of a replica', async () => {
+    config.outboxMaxAttempts = 1;
+    await enqueue('r1', 1);
+    await enqueue('r2', 1);
+    await enqueue('r1', 2);
+
+    expect(
+      service
+        .findAll()
+        .map(({ replicaId, configuration, supersededCount }) => [
+          replicaId,
+          configuration.variables.latency,
+          supersededCount,
+        ]),
+    ).toEqual([
+      ['r2', 1, 0],
+      ['r1', 2, 1],
+    ]);
+  });
+
+  it('should count publishes that do not complete as failed attempts', async () => {
+    config.outboxMaxAttempts = 2;
+    publishEvent.mockReturnValue(new Promise(() => undefined));
+
+    service.enqueue('svc', [{ replicaId: 'r1', variables: {} }]);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(service.findAll()).toEqual([
+      expect.objectContaining({
+        state: 'pending',
+        attempts: 1,
+        lastError: 'Error: Publish timed out after 10000ms',
+      }),
+    ]);
+
+    // later dispatches are not blocked by the publish that never completed
+    jest.advanceTimersByTime(1000);
+    const retry = service.dispatch();
+    expect(publishEvent).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(10000);
+    await retry;
+    expect(service.findAll(undefined, 'dead')).toHaveLength(1);
+  });
+
+  it('should queue replayed entries and return without waiting for the publish', async () => {
+    config.outboxMaxAttempts = 1;
+    await enqueue('r1');
+    await enqueue('r2');
+    publishEvent.mockReturnValue(new Promise(() => undefined));
+
+    const result = service.replay(service.findAll(undefined, 'dead'));
+
+    expect(result.replayed).toBe(2);
+    expect(result.entries).toEqual([
+      expect.objectContaining({
+        replicaId: 'r1',
+        state: 'pending',
+        attempts: 0,
+      }),
+      expect.objectContaining({
+        replicaId: 'r2',
+        state: 'pending',
+        attempts: 0,
+      }),
+    ]);
+    expect(publishEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it('should publish replayed entries', async () => {
+    config.outboxMaxAttempts = 1;
+    await enqueue('r1');
+    publishEvent.mockResolvedValueOnce(undefined);
+
+    service.replay(service.findAll());
+    await service.dispatch();
+
+    expect(service.findAll()).toEqual([]);
+  });
+});
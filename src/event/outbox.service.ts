@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppConfig } from 'src/app-config/app-config';
+import { MetricsService } from 'src/metrics/metrics.service';
+import { EventPublisherService } from './event-publisher.service';
+import { ReplicaConfiguration } from './dto/configuration.dto';
+import {
+  OutboxEntry,
+  OutboxEntryState,
+  OutboxReplayResult,
+} from './entities/outbox-entry.entity';
+
+// properties of the stored entries that are revived as dates
+const DATE_PROPERTIES = ['createdAt', 'nextAttemptAt'];
+
+/**
+ * Service for reliably publishing configurations.
+ * Configurations are queued per replica and published by a background dispatcher,
+ * failed publishes are retried with exponential backoff and dead-lettered after the maximum number of attempts.
+ * A newer configuration of a replica supersedes a queued or dead-lettered one.
+ */
+@Injectable()
+export class OutboxService implements OnModuleInit, OnModuleDestroy {
+  // queued and dead-lettered entries by ID, in insertion order
+  private readonly entries: Map<string, OutboxEntry> = new Map();
+  private dispatcher?: NodeJS.Timeout;
+  // the running dispatch and the one queued behind it
+  private runningDispatch?: Promise<void>;
+  private queuedDispatch?: Promise<void>;
+
+  constructor(
+    private readonly eventPublisherService: EventPublisherService,
+    private readonly metricsService: MetricsService,
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleInit() {
+    this.restore();
+    this.dispatcher = setInterval(
+      () => this.dispatch(),
+      this.config.outboxDispatchIntervalMs,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.dispatcher);
+  }
+
+  /**
+   * Queues the configurations of replicas for publishing and starts a dispatch.
+   * @param serviceName - The name of the service.
+   * @param configurations - The configurations of the replicas.
+   */
+  enqueue(serviceName: string, configurations: ReplicaConfiguration[]) {
+    const now = new Date();
+    configurations.forEach((configuration) => {
+      const superseded = this.findByReplica(
+        serviceName,
+        configuration.replicaId,
+      );
+      if (superseded) {
+        this.entries.delete(superseded.id);
+      }
+      const entry: OutboxEntry = {
+        id: randomUUID(),
+        serviceName,
+        replicaId: configuration.replicaId,
+        configuration,
+        state: 'pending',
+        attempts: 0,
+        supersededCount: superseded ? superseded.supersededCount + 1 : 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      this.entries.set(entry.id, entry);
+    });
+    this.onChange();
+    this.dispatch();
+  }
+
+  /**
+   * Retrieves the entries of the outbox.
+   * @param serviceName - Only retrieve the entries of this service, if set.
+   * @param state - Only retrieve entries in this state, if set.
+   * @returns The entries, oldest first.
+   */
+  findAll(serviceName?: string, state?: OutboxEntryState): OutboxEntry[] {
+    return [...this.entries.values()].filter(
+      (entry) =>
+        (!serviceName || entry.serviceName === serviceName) &&
+        (!state || entry.state === state),
+    );
+  }
+
+  /**
+   * Retrieves an entry of the outbox.
+   * @param id - The ID of the entry.
+   * @returns The entry.
+   * @throws NotFoundException if the entry is not found.
+   */
+  findOne(id: string): OutboxEntry {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new NotFoundException(`Outbox entry '${id}' not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * Queues the given entries for an immediate publish, regardless of their state, attempts and backoff.
+   * The publish is started but not awaited, its outcome is reflected by the entries.
+   * @param entries - The entries to replay.
+   * @returns The number of replayed entries and the queued entries.
+   */
+  replay(entries: OutboxEntry[]): OutboxReplayResult {
+    const now = new Date();
+    entries.forEach((entry) => {
+      entry.state = 'pending';
+      entry.attempts = 0;
+      entry.nextAttemptAt = now;
+    });
+    this.onChange();
+    this.dispatch();
+    return { replayed: entries.length, entries };
+  }
+
+  /**
+   * Publishes all due entries, grouped into one event per service.
+   * Dispatches never overlap, a dispatch requested while another one runs is started afterwards.
+   * @returns A promise that resolves when the dispatch is finished.
+   */
+  dispatch(): Promise<void> {
+    if (!this.runningDispatch) {
+      this.runningDispatch = this.dispatchDue().finally(() => {
+        this.runningDispatch = undefined;
+      });
+      return this.runningDispatch;
+    }
+    if (!this.queuedDispatch) {
+      this.queuedDispatch = this.runningDispatch.then(() => {
+        this.queuedDispatch = undefined;
+        return this.dispatch();
+      });
+    }
+    return this.queuedDispatch;
+  }
+
+  /**
+   * Publishes the due entries of every service.
+   */
+  private async dispatchDue() {
+    const now = Date.now();
+    const dueEntries = this.findAll(undefined, 'pending').filter(
+      (entry) => (entry.nextAttemptAt?.getTime() ?? 0) <= now,
+    );
+    if (dueEntries.length === 0) {
+      return;
+    }
+    const entriesByService = new Map<string, OutboxEntry[]>();
+    dueEntries.forEach((entry) =>
+      entriesByService.set(entry.serviceName, [
+        ...(entriesByService.get(entry.serviceName) ?? []),
+        entry,
+      ]),
+    );
+    for (const [serviceName, entries] of entriesByService) {
+      await this.publish(serviceName, entries);
+    }
+    this.onChange();
+  }
+
+  /**
+   * Publishes the configurations of entries of a service.
+   * Delivered entries are removed, failed or timed out ones are scheduled for a retry or dead-lettered.
+   * Entries superseded during the publish are left untouched.
+   * @param serviceName - The name of the service.
+   * @param entries - The entries to publish.
+   */
+  private async publish(serviceName: string, entries: OutboxEntry[]) {
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      // a publish that never completes would block all later dispatches, so it fails after a timeout
+      await Promise.race([
+        this.eventPublisherService.publishEvent(
+          this.config.configPubsubName,
+          this.config.configTopic.replace('{service}', serviceName),
+          { configurations: entries.map((entry) => entry.configuration) },
+        ),
+        new Promise((_, reject) => {
+          timeout = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `Publish timed out after ${this.config.outboxPublishTimeoutMs}ms`,
+                ),
+              ),
+            this.config.outboxPublishTimeoutMs,
+          );
+        }),
+      ]);
+      entries.forEach((entry) => this.entries.delete(entry.id));
+    } catch (error) {
+      entries
+        .filter((entry) => this.entries.has(entry.id))
+        .forEach((entry) => this.recordFailure(entry, String(error)));
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Records a failed publish of an entry.
+   * @param entry - The entry.
+   * @param error - The error of the publish.
+   */
+  private recordFailure(entry: OutboxEntry, error: string) {
+    entry.attempts++;
+    entry.lastError = error;
+    if (entry.attempts >= this.config.outboxMaxAttempts) {
+      entry.state = 'dead';
+      entry.nextAttemptAt = undefined;
+      this.logger.error(
+        `{recordFailure} Giving up publishing configuration of replica ${entry.replicaId} of service ${entry.serviceName} after ${entry.attempts} attempts`,
+      );
+      return;
+    }
+    const backoffMs = Math.min(
+      this.config.outboxBackoffMs * 2 ** (entry.attempts - 1),
+      this.config.outboxMaxBackoffMs,
+    );
+    entry.nextAttemptAt = new Date(Date.now() + backoffMs);
+    this.logger.warn(
+      `Publishing configuration of replica ${entry.replicaId} of service ${entry.serviceName} failed, retrying in ${backoffMs}ms`,
+    );
+  }
+
+  /**
+   * Finds the entry of a replica.
+   * @param serviceName - The name of the service.
+   * @param replicaId - The ID of the replica.
+   * @returns The entry or undefined if no configuration of the replica is queued or dead-lettered.
+   */
+  private findByReplica(
+    serviceName: string,
+    replicaId: string,
+  ): OutboxEntry | undefined {
+    return this.findAll(serviceName).find(
+      (entry) => entry.replicaId === replicaId,
+    );
+  }
+
+  /**
+   * Updates the outbox metrics and stores the entries after a change.
+   */
+  private onChange() {
+    this.updateMetrics();
+    this.persist();
+  }
+
+  /**
+   * Updates the number of pending and dead-lettered entries in the metrics.
+   */
+  private updateMetrics() {
+    this.metricsService.setOutboxEntries(
+      this.findAll(undefined, 'pending').length,
+      this.findAll(undefined, 'dead').length,
+    );
+  }
+
+  /**
+   * Loads the stored entries from the file, if a file is configured and exists.
+   * @throws Error if the file exists but can not be parsed.
+   */
+  private restore() {
+    const filePath = this.config.outboxStorePath;
+    if (!filePath || !fs.existsSync(filePath)) {
+      return;
+    }
+    const entries: OutboxEntry[] = JSON.parse(
+      fs.readFileSync(filePath, 'utf-8'),
+      (key, value) =>
+        DATE_PROPERTIES.includes(key) && value ? new Date(value) : value,
+    );
+    entries.forEach((entry) => this.entries.set(entry.id, entry));
+    this.logger.log(
+      `Restored ${entries.length} outbox entries from ${filePath}`,
+    );
+    this.updateMetrics();
+  }
+
+  /**
+   * Writes all entries to the file, if a file is configured.
+   */
+  private persist() {
+    const filePath = this.config.outboxStorePath;
+    if (!filePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const temporaryPath = `${filePath}.tmp`;
+      fs.writeFileSync(temporaryPath, JSON.stringify(this.findAll(), null, 2));
+      fs.renameSync(temporaryPath, filePath);
+    } catch (error) {
+      this.logger.error(`{persist} ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ConfigurationVariableDto } from 'src/configuration/dto/service-configuration.dto';
+import { ExperimentChange } from '../entities/experiment.entity';
+
+/**
+ * DTO for the variable changes of an experiment for a service or one of its replicas.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica whose overrides are changed, the global variables are changed if not set.
+ * @property variables - The variables to apply.
+ */
+export class ExperimentChangeDto implements ExperimentChange {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  serviceName: string;
+  @ApiPropertyOptional({
+    description: 'The global variables are changed if not set',
+  })
+  @IsOptional()
+  @IsString()
+  replicaId?: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  variables: ConfigurationVariableDto[];
+}
+
+/**
+ * DTO for creating an experiment.
+ * @property name - The name of the experiment.
+ * @property description - Optional description of the experiment.
+ * @property changes - The variable changes applied when the experiment is started.
+ * @property maxDurationMs - Optional duration in milliseconds after which the experiment is stopped automatically.
+ */
+export class CreateExperimentDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+  @ApiProperty({ type: [ExperimentChangeDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ExperimentChangeDto)
+  changes: ExperimentChangeDto[];
+  @ApiPropertyOptional({
+    description: 'Duration after which the experiment is stopped automatically',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDurationMs?: number;
+}
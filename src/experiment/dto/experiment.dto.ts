@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  Experiment,
+  ExperimentPreviousValue,
+  ExperimentStatus,
+} from '../entities/experiment.entity';
+import { ExperimentChangeDto } from './create-experiment.dto';
+
+/**
+ * DTO for the value of a variable in effect before an experiment was started.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica for overrides, not set for global variables.
+ * @property key - The key of the variable.
+ * @property value - The previous value, missing if the replica had no override.
+ * @property overridden - Whether the replica had an override, always true for global variables.
+ */
+export class ExperimentPreviousValueDto implements ExperimentPreviousValue {
+  @ApiProperty()
+  serviceName: string;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiProperty()
+  key: string;
+  @ApiPropertyOptional(ANY_VALUE)
+  value?: any;
+  @ApiProperty()
+  overridden: boolean;
+}
+
+/**
+ * DTO for an experiment.
+ * @property id - The ID of the experiment.
+ * @property name - The name of the experiment.
+ * @property description - Optional description of the experiment.
+ * @property status - The status of the experiment.
+ * @property changes - The variable changes applied when the experiment is started.
+ * @property maxDurationMs - Optional duration in milliseconds after which a running experiment is stopped automatically.
+ * @property previousValues - The values in effect before the start, restored when the experiment is stopped.
+ * @property createdAt - The time the experiment was created.
+ * @property startedAt - The time the experiment was started.
+ * @property endsAt - The time a running experiment is stopped automatically.
+ * @property finishedAt - The time the experiment was stopped, completed or its revert failed.
+ * @property error - The reason the automatic revert failed.
+ */
+export class ExperimentDto implements Experiment {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+  @ApiProperty()
+  name: string;
+  @ApiPropertyOptional()
+  description?: string;
+  @ApiProperty({
+    enum: ['draft', 'running', 'stopped', 'completed', 'revert-failed'],
+  })
+  status: ExperimentStatus;
+  @ApiProperty({ type: [ExperimentChangeDto] })
+  changes: ExperimentChangeDto[];
+  @ApiPropertyOptional()
+  maxDurationMs?: number;
+  @ApiProperty({ type: [ExperimentPreviousValueDto] })
+  previousValues: ExperimentPreviousValueDto[];
+  @ApiProperty()
+  createdAt: Date;
+  @ApiPropertyOptional()
+  startedAt?: Date;
+  @ApiPropertyOptional()
+  endsAt?: Date;
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+  @ApiPropertyOptional()
+  error?: string;
+}
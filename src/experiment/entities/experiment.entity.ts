@@ -0,0 +1,75 @@
+import { ConfigurationVariable } from 'src/configuration/entities/service-configuration.entity';
+
+/**
+ * Status of an experiment.
+ * draft - the experiment was created but not started yet.
+ * running - the changes of the experiment are applied.
+ * stopped - the experiment was stopped manually and the previous values were restored.
+ * completed - the maximum duration elapsed and the previous values were restored.
+ * revert-failed - the maximum duration elapsed but the previous values could not be restored,
+ * the changes of the experiment may still be applied and have to be reverted manually.
+ */
+export type ExperimentStatus =
+  | 'draft'
+  | 'running'
+  | 'stopped'
+  | 'completed'
+  | 'revert-failed';
+
+/**
+ * Represents the variable changes of an experiment for a service or one of its replicas.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica whose overrides are changed, the global variables are changed if not set.
+ * @property variables - The variables to apply.
+ */
+export interface ExperimentChange {
+  serviceName: string;
+  replicaId?: string;
+  variables: ConfigurationVariable[];
+}
+
+/**
+ * Represents the value of a variable in effect before an experiment was started.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica for overrides, not set for global variables.
+ * @property key - The key of the variable.
+ * @property value - The previous value, not set if the replica had no override.
+ * @property overridden - Whether the replica had an override, always true for global variables.
+ */
+export interface ExperimentPreviousValue {
+  serviceName: string;
+  replicaId?: string;
+  key: string;
+  value?: any;
+  overridden: boolean;
+}
+
+/**
+ * Represents an experiment grouping variable changes across services and replicas.
+ * @property id - The ID of the experiment.
+ * @property name - The name of the experiment.
+ * @property description - Optional description of the experiment.
+ * @property status - The status of the experiment.
+ * @property changes - The variable changes applied when the experiment is started.
+ * @property maxDurationMs - Optional duration in milliseconds after which a running experiment is stopped automatically.
+ * @property previousValues - The values in effect before the start, restored when the experiment is stopped.
+ * @property createdAt - The time the experiment was created.
+ * @property startedAt - The time the experiment was started.
+ * @property endsAt - The time a running experiment is stopped automatically.
+ * @property finishedAt - The time the experiment was stopped, completed or its revert failed.
+ * @property error - The reason the automatic revert failed.
+ */
+export interface Experiment {
+  id: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  changes: ExperimentChange[];
+  maxDurationMs?: number;
+  previousValues: ExperimentPreviousValue[];
+  createdAt: Date;
+  startedAt?: Date;
+  endsAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+}
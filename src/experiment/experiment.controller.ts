@@ -0,0 +1,152 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ExperimentService } from './experiment.service';
+import { CreateExperimentDto } from './dto/create-experiment.dto';
+import { Experiment } from './entities/experiment.entity';
+import { ChangeContextDto } from 'src/configuration/dto/change-context.dto';
+import { toChangeContext } from 'src/auth/change-context';
+import { Identity } from 'src/auth/decorators/identity.decorator';
+import { AuthIdentity } from 'src/auth/entities/auth-identity.entity';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { VariableValidationErrorResponseDto } from 'src/configuration/dto/variable-validation.dto';
+import { ExperimentDto } from './dto/experiment.dto';
+
+/**
+ * Controller for handling experiments.
+ */
+@ApiTags('experiments')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('experiments')
+export class ExperimentController {
+  /**
+   * Creates an instance of the ExperimentController class.
+   * @param experimentService The experiment service.
+   */
+  constructor(private readonly experimentService: ExperimentService) {}
+
+  /**
+   * HTTP Endpoint to create an experiment.
+   * @param createExperimentDto - The DTO containing the changes of the experiment.
+   * @returns The created experiment.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create an experiment' })
+  @ApiCreatedResponse({ type: ExperimentDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  createExperiment(
+    @Body() createExperimentDto: CreateExperimentDto,
+  ): Experiment {
+    return this.experimentService.create(createExperimentDto);
+  }
+
+  /**
+   * HTTP Endpoint to get all experiments.
+   * @returns All experiments.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all experiments' })
+  @ApiOkResponse({ type: [ExperimentDto] })
+  getExperiments(): Experiment[] {
+    return this.experimentService.findAll();
+  }
+
+  /**
+   * HTTP Endpoint to get an experiment.
+   * @param id - The ID of the experiment.
+   * @returns The experiment including the values restored when it is stopped.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an experiment' })
+  @ApiOkResponse({ type: ExperimentDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getExperiment(@Param('id') id: string): Experiment {
+    return this.experimentService.findOne(id);
+  }
+
+  /**
+   * HTTP Endpoint to delete an experiment that is not running.
+   * @param id - The ID of the experiment.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an experiment' })
+  @ApiNoContentResponse({ description: 'The experiment was deleted' })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  deleteExperiment(@Param('id') id: string): void {
+    this.experimentService.delete(id);
+  }
+
+  /**
+   * HTTP Endpoint to start an experiment, applying all of its changes.
+   * @param id - The ID of the experiment.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The experiment.
+   */
+  @Post(':id/start')
+  @ApiOperation({ summary: 'Start an experiment' })
+  @ApiCreatedResponse({ type: ExperimentDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  startExperiment(
+    @Param('id') id: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): Experiment {
+    return this.experimentService.start(
+      id,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+
+  /**
+   * HTTP Endpoint to stop an experiment, restoring the values in effect before its start.
+   * @param id - The ID of the experiment.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The experiment.
+   */
+  @Post(':id/stop')
+  @ApiOperation({ summary: 'Stop an experiment' })
+  @ApiCreatedResponse({ type: ExperimentDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  stopExperiment(
+    @Param('id') id: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): Experiment {
+    return this.experimentService.stop(
+      id,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+}
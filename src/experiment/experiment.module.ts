@@ -0,0 +1,14 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { ExperimentController } from './experiment.controller';
+import { ExperimentService } from './experiment.service';
+
+/**
+ * Module for handling experiments grouping variable changes across services.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [ExperimentService, Logger],
+  controllers: [ExperimentController],
+})
+export class ExperimentModule {}
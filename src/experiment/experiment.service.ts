@@ -0,0 +1,372 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { ChangeContext } from 'src/configuration/entities/configuration-revision.entity';
+import { VariableChangeSet } from 'src/configuration/entities/variable-change-set.entity';
+import { CreateExperimentDto } from './dto/create-experiment.dto';
+import {
+  Experiment,
+  ExperimentChange,
+  ExperimentPreviousValue,
+  ExperimentStatus,
+} from './entities/experiment.entity';
+
+/**
+ * Service for running experiments.
+ * Starting an experiment applies all of its changes as a whole through the configuration service,
+ * stopping it restores the values that were in effect before the start.
+ * Running experiments must not change the same variable of a service.
+ */
+@Injectable()
+export class ExperimentService implements OnModuleDestroy {
+  // in-memory store of experiments by ID
+  private readonly experiments: Map<string, Experiment> = new Map();
+  // timers stopping running experiments after their maximum duration
+  private readonly timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleDestroy() {
+    this.timers.forEach(clearTimeout);
+  }
+
+  /**
+   * Creates a new experiment, its changes are applied once started.
+   * @param createExperimentDto - The DTO containing the changes of the experiment.
+   * @returns The created experiment.
+   */
+  create(createExperimentDto: CreateExperimentDto): Experiment {
+    const experiment: Experiment = {
+      id: randomUUID(),
+      name: createExperimentDto.name,
+      description: createExperimentDto.description,
+      status: 'draft',
+      changes: createExperimentDto.changes.map((change) => ({
+        serviceName: change.serviceName,
+        replicaId: change.replicaId,
+        variables: change.variables,
+      })),
+      maxDurationMs: createExperimentDto.maxDurationMs,
+      previousValues: [],
+      createdAt: new Date(),
+    };
+    this.experiments.set(experiment.id, experiment);
+    this.logger.log(`Created experiment ${experiment.id}`);
+    return experiment;
+  }
+
+  /**
+   * Retrieves all experiments.
+   * @param status - Only retrieve experiments with this status, if set.
+   * @returns The experiments.
+   */
+  findAll(status?: ExperimentStatus): Experiment[] {
+    return Array.from(this.experiments.values()).filter(
+      (experiment) => !status || experiment.status === status,
+    );
+  }
+
+  /**
+   * Retrieves an experiment by ID.
+   * @param id - The ID of the experiment.
+   * @returns The experiment.
+   * @throws NotFoundException if the experiment is not found.
+   */
+  findOne(id: string): Experiment {
+    const experiment = this.experiments.get(id);
+    if (!experiment) {
+      throw new NotFoundException(`Experiment '${id}' not found`);
+    }
+    return experiment;
+  }
+
+  /**
+   * Deletes an experiment that is not running.
+   * @param id - The ID of the experiment.
+   * @throws NotFoundException if the experiment is not found.
+   * @throws ConflictException if the experiment is running.
+   */
+  delete(id: string): void {
+    const experiment = this.findOne(id);
+    if (experiment.status === 'running') {
+      throw new ConflictException(
+        `Experiment '${id}' is running and has to be stopped first`,
+      );
+    }
+    this.experiments.delete(id);
+  }
+
+  /**
+   * Starts a draft experiment.
+   * The values in effect are captured, then all changes are validated and applied as a whole.
+   * @param id - The ID of the experiment.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The experiment.
+   * @throws NotFoundException if the experiment or a targeted service or replica is not found.
+   * @throws ConflictException if the experiment is not a draft or a running experiment changes the same variables.
+   * @throws BadRequestException if a variable does not match its definition.
+   */
+  start(id: string, context: ChangeContext = {}): Experiment {
+    const experiment = this.findOne(id);
+    if (experiment.status !== 'draft') {
+      throw new ConflictException(
+        `Experiment '${id}' can not be started while ${experiment.status}`,
+      );
+    }
+    this.checkConflicts(experiment);
+    const previousValues = this.capturePreviousValues(experiment.changes);
+    this.configurationService.applyChangeSets(
+      experiment.changes.map((change) => this.toChangeSet(change)),
+      {
+        actor: context.actor ?? `experiment:${id}`,
+        reason: context.reason ?? `Start experiment ${experiment.name}`,
+      },
+    );
+    experiment.previousValues = previousValues;
+    experiment.status = 'running';
+    experiment.startedAt = new Date();
+    if (experiment.maxDurationMs) {
+      experiment.endsAt = new Date(
+        experiment.startedAt.getTime() + experiment.maxDurationMs,
+      );
+      this.timers.set(
+        id,
+        setTimeout(() => this.complete(experiment), experiment.maxDurationMs),
+      );
+    }
+    this.logger.log(`Started experiment ${id}`);
+    return experiment;
+  }
+
+  /**
+   * Stops a running experiment and restores the values in effect before its start.
+   * Values of services, replicas and variables that no longer exist are skipped.
+   * @param id - The ID of the experiment.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The experiment.
+   * @throws NotFoundException if the experiment is not found.
+   * @throws ConflictException if the experiment is not running.
+   * @throws BadRequestException if a previous value no longer matches its definition, the experiment keeps running.
+   */
+  stop(id: string, context: ChangeContext = {}): Experiment {
+    return this.finish(this.findOne(id), 'stopped', context);
+  }
+
+  /**
+   * Stops an experiment after its maximum duration elapsed.
+   * If the previous values can not be restored, the experiment is marked as revert-failed with the error,
+   * which releases its variables for other experiments.
+   * @param experiment - The experiment.
+   */
+  private complete(experiment: Experiment) {
+    try {
+      this.finish(experiment, 'completed', {
+        reason: `Maximum duration of experiment ${experiment.name} elapsed`,
+      });
+    } catch (error) {
+      const response = error.getResponse?.();
+      this.timers.delete(experiment.id);
+      experiment.status = 'revert-failed';
+      experiment.error = Array.isArray(response?.message)
+        ? response.message.join(', ')
+        : error.message;
+      experiment.finishedAt = new Date();
+      this.logger.error(
+        `{complete} Reverting experiment ${experiment.id} failed: ${experiment.error}`,
+      );
+    }
+  }
+
+  /**
+   * Restores the previous values of a running experiment and marks it as finished.
+   * @param experiment - The experiment.
+   * @param status - The status of the finished experiment.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The experiment.
+   * @throws ConflictException if the experiment is not running.
+   * @throws BadRequestException if a previous value no longer matches its definition.
+   */
+  private finish(
+    experiment: Experiment,
+    status: ExperimentStatus,
+    context: ChangeContext,
+  ): Experiment {
+    if (experiment.status !== 'running') {
+      throw new ConflictException(
+        `Experiment '${experiment.id}' is not running`,
+      );
+    }
+    this.configurationService.applyChangeSets(
+      this.toRevertChangeSets(experiment),
+      {
+        actor: context.actor ?? `experiment:${experiment.id}`,
+        reason: context.reason ?? `Stop experiment ${experiment.name}`,
+      },
+    );
+    clearTimeout(this.timers.get(experiment.id));
+    this.timers.delete(experiment.id);
+    experiment.status = status;
+    experiment.finishedAt = new Date();
+    this.logger.log(`Experiment ${experiment.id} ${status}`);
+    return experiment;
+  }
+
+  /**
+   * Ensures no running experiment changes a variable of a service that the experiment changes as well.
+   * Global and replica changes of the same variable conflict, as both determine its effective value.
+   * @param experiment - The experiment to start.
+   * @throws ConflictException listing the conflicting experiments and variables.
+   */
+  private checkConflicts(experiment: Experiment) {
+    const targets = this.getTargets(experiment);
+    const conflicts = this.findAll('running').flatMap((running) => {
+      const shared = [...this.getTargets(running)].filter((target) =>
+        targets.has(target),
+      );
+      return shared.length > 0
+        ? [`${running.name} (${running.id}): ${shared.join(', ')}`]
+        : [];
+    });
+    if (conflicts.length > 0) {
+      throw new ConflictException(
+        `Experiment '${experiment.id}' conflicts with running experiments ${conflicts.join('; ')}`,
+      );
+    }
+  }
+
+  /**
+   * Collects the variables changed by an experiment.
+   * @param experiment - The experiment.
+   * @returns The changed variables as service/key pairs.
+   */
+  private getTargets(experiment: Experiment): Set<string> {
+    return new Set(
+      experiment.changes.flatMap((change) =>
+        change.variables.map(
+          (variable) => `${change.serviceName}/${variable.key}`,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Captures the values in effect for all variables changed by an experiment.
+   * @param changes - The changes of the experiment.
+   * @returns The previous values, one per service, replica and key.
+   * @throws NotFoundException if a service or replica is not found.
+   */
+  private capturePreviousValues(
+    changes: ExperimentChange[],
+  ): ExperimentPreviousValue[] {
+    const previousValues: ExperimentPreviousValue[] = [];
+    changes.forEach(({ serviceName, replicaId, variables }) => {
+      const current = replicaId
+        ? this.configurationService.findReplica(serviceName, replicaId)
+            .replicaVariables
+        : this.configurationService.findService(serviceName).globalVariables;
+      variables
+        .filter(
+          ({ key }) =>
+            !previousValues.some(
+              (captured) =>
+                captured.serviceName === serviceName &&
+                captured.replicaId === replicaId &&
+                captured.key === key,
+            ),
+        )
+        .forEach(({ key }) => {
+          const variable = current.find((variable) => variable.key === key);
+          if (!variable && !replicaId) {
+            // unknown global variables are rejected when the changes are applied
+            return;
+          }
+          previousValues.push({
+            serviceName,
+            replicaId,
+            key,
+            value: structuredClone(variable?.value),
+            overridden: !!variable,
+          });
+        });
+    });
+    return previousValues;
+  }
+
+  /**
+   * Converts a change of an experiment to a change set.
+   * @param change - The change.
+   * @returns The change set.
+   */
+  private toChangeSet(change: ExperimentChange): VariableChangeSet {
+    return change.replicaId
+      ? {
+          serviceName: change.serviceName,
+          replicas: [
+            { replicaId: change.replicaId, variables: change.variables },
+          ],
+        }
+      : { serviceName: change.serviceName, globalVariables: change.variables };
+  }
+
+  /**
+   * Builds the change sets restoring the previous values of an experiment.
+   * Replicas without an override before the start get their override removed.
+   * @param experiment - The experiment.
+   * @returns The change sets of all services that still exist.
+   */
+  private toRevertChangeSets(experiment: Experiment): VariableChangeSet[] {
+    const knownServices = this.configurationService.findAllServiceNames();
+    const changeSets: VariableChangeSet[] = [];
+    experiment.previousValues.forEach((previous) => {
+      if (!knownServices.includes(previous.serviceName)) {
+        this.logger.warn(
+          `Service ${previous.serviceName} of experiment ${experiment.id} no longer exists, skipping revert of ${previous.key}`,
+        );
+        return;
+      }
+      const service = this.configurationService.findService(
+        previous.serviceName,
+      );
+      const defined = service.variableDefinitions.some(
+        ({ key }) => key === previous.key,
+      );
+      const replicaExists =
+        !previous.replicaId ||
+        service.replicas.some(({ id }) => id === previous.replicaId);
+      if (!replicaExists || (previous.overridden && !defined)) {
+        this.logger.warn(
+          `Replica or variable ${previous.key} of service ${previous.serviceName} of experiment ${experiment.id} no longer exists, skipping revert`,
+        );
+        return;
+      }
+      const variable = { key: previous.key, value: previous.value };
+      if (!previous.replicaId) {
+        changeSets.push({
+          serviceName: previous.serviceName,
+          globalVariables: [variable],
+        });
+        return;
+      }
+      changeSets.push({
+        serviceName: previous.serviceName,
+        replicas: [
+          {
+            replicaId: previous.replicaId,
+            variables: previous.overridden ? [variable] : [],
+            clearedOverrides: previous.overridden ? [] : [previous.key],
+          },
+        ],
+      });
+    });
+    return changeSets;
+  }
+}
@@ -0,0 +1,21 @@
+import { NestFactory } from '@nestjs/core';
+import * as fs from 'fs';
+import { AppModule } from './app.module';
+import { createOpenApiDocument } from './shared/openapi/openapi';
+
+/**
+ * Writes the OpenAPI document to a JSON file without starting the server.
+ * The target path is taken from the first argument and defaults to `openapi.json`.
+ * @returns {Promise<void>} A promise that resolves when the file is written.
+ */
+async function exportOpenApi() {
+  const filePath = process.argv[2] ?? 'openapi.json';
+  const app = await NestFactory.create(AppModule, { logger: ['error'] });
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify(createOpenApiDocument(app), null, 2),
+  );
+  await app.close();
+  console.log(`OpenAPI document written to ${filePath}`);
+}
+exportOpenApi();
@@ -0,0 +1,108 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  GeneratorSpec,
+  GeneratorType,
+} from '../entities/variable-generator.entity';
+
+/**
+ * DTO for the parameters of a variable generator.
+ * The parameters required by the type are checked when the generator is attached.
+ */
+export class GeneratorSpecDto implements GeneratorSpec {
+  @ApiProperty({ enum: ['ramp', 'step', 'sine', 'random-walk'] })
+  @IsIn(['ramp', 'step', 'sine', 'random-walk'])
+  type: GeneratorType;
+  @ApiPropertyOptional({
+    description: 'Start value of ramp, step and random walk generators',
+  })
+  @IsOptional()
+  @IsNumber()
+  from?: number;
+  @ApiPropertyOptional({ description: 'End value of ramp and step generators' })
+  @IsOptional()
+  @IsNumber()
+  to?: number;
+  @ApiPropertyOptional({
+    description: 'Duration of ramp and step generators',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationMs?: number;
+  @ApiPropertyOptional({ description: 'Number of steps of step generators' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  steps?: number;
+  @ApiPropertyOptional({ description: 'Center value of sine generators' })
+  @IsOptional()
+  @IsNumber()
+  baseline?: number;
+  @ApiPropertyOptional({ description: 'Amplitude of sine generators' })
+  @IsOptional()
+  @IsNumber()
+  amplitude?: number;
+  @ApiPropertyOptional({ description: 'Period of sine generators' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  periodMs?: number;
+  @ApiPropertyOptional({
+    description: 'Maximum change per tick of random walk generators',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxStep?: number;
+  @ApiPropertyOptional({
+    description: 'Lower bound the generated values are clamped to',
+  })
+  @IsOptional()
+  @IsNumber()
+  min?: number;
+  @ApiPropertyOptional({
+    description: 'Upper bound the generated values are clamped to',
+  })
+  @IsOptional()
+  @IsNumber()
+  max?: number;
+}
+
+/**
+ * DTO for attaching a generator to a variable.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica whose override is generated, the global variable is generated if not set.
+ * @property key - The key of the variable.
+ * @property spec - The parameters of the generator.
+ */
+export class AttachGeneratorDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  serviceName: string;
+  @ApiPropertyOptional({
+    description: 'The global variable is generated if not set',
+  })
+  @IsOptional()
+  @IsString()
+  replicaId?: string;
+  @ApiProperty({ example: 'latency' })
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+  @ApiProperty({ type: GeneratorSpecDto })
+  @ValidateNested()
+  @Type(() => GeneratorSpecDto)
+  spec: GeneratorSpecDto;
+}
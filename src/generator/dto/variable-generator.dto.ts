@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ANY_VALUE } from 'src/shared/openapi/any-value';
+import {
+  GeneratorStatus,
+  VariableGenerator,
+} from '../entities/variable-generator.entity';
+import { GeneratorSpecDto } from './attach-generator.dto';
+
+/**
+ * DTO for a generator attached to a global variable or a replica override.
+ * @property id - The ID of the generator.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica whose override is generated, the global variable is generated if not set.
+ * @property key - The key of the generated variable.
+ * @property spec - The parameters of the generator.
+ * @property status - The status of the generator.
+ * @property previousValue - The value before the generator was attached, restored when it is detached.
+ * @property previousOverridden - Whether the replica had an override before the generator was attached.
+ * @property currentValue - The last generated value.
+ * @property lastTickAt - The time the last value was generated.
+ * @property lastError - The reason the last generated value was rejected.
+ * @property elapsedMs - The running time in milliseconds accumulated before the last pause.
+ * @property attachedAt - The time the generator was attached.
+ */
+export class VariableGeneratorDto implements VariableGenerator {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+  @ApiProperty()
+  serviceName: string;
+  @ApiPropertyOptional()
+  replicaId?: string;
+  @ApiProperty()
+  key: string;
+  @ApiProperty({ type: GeneratorSpecDto })
+  spec: GeneratorSpecDto;
+  @ApiProperty({ enum: ['running', 'paused'] })
+  status: GeneratorStatus;
+  @ApiPropertyOptional(ANY_VALUE)
+  previousValue?: any;
+  @ApiProperty()
+  previousOverridden: boolean;
+  @ApiPropertyOptional()
+  currentValue?: number;
+  @ApiPropertyOptional()
+  lastTickAt?: Date;
+  @ApiPropertyOptional()
+  lastError?: string;
+  @ApiProperty()
+  elapsedMs: number;
+  @ApiProperty()
+  attachedAt: Date;
+}
@@ -0,0 +1,75 @@
+/**
+ * Type of a variable generator.
+ * ramp - moves linearly from `from` to `to` within `durationMs` and holds `to` afterwards.
+ * step - moves from `from` to `to` in `steps` equal steps within `durationMs` and holds `to` afterwards.
+ * sine - oscillates around `baseline` by `amplitude` with a period of `periodMs`.
+ * random-walk - starts at `from` and changes by a random amount of at most `maxStep` per tick.
+ */
+export type GeneratorType = 'ramp' | 'step' | 'sine' | 'random-walk';
+
+/**
+ * Status of a variable generator.
+ * running - the value is generated on every tick.
+ * paused - the last generated value is kept until the generator is resumed.
+ */
+export type GeneratorStatus = 'running' | 'paused';
+
+/**
+ * Represents the parameters of a variable generator, the required ones depend on the type.
+ * @property type - The type of the generator.
+ * @property from - The start value of ramp, step and random walk generators.
+ * @property to - The end value of ramp and step generators.
+ * @property durationMs - The duration of ramp and step generators in milliseconds.
+ * @property steps - The number of steps of step generators.
+ * @property baseline - The center value of sine generators.
+ * @property amplitude - The amplitude of sine generators.
+ * @property periodMs - The period of sine generators in milliseconds.
+ * @property maxStep - The maximum change per tick of random walk generators.
+ * @property min - Optional lower bound the generated values are clamped to.
+ * @property max - Optional upper bound the generated values are clamped to.
+ */
+export interface GeneratorSpec {
+  type: GeneratorType;
+  from?: number;
+  to?: number;
+  durationMs?: number;
+  steps?: number;
+  baseline?: number;
+  amplitude?: number;
+  periodMs?: number;
+  maxStep?: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Represents a generator attached to a global variable or a replica override.
+ * @property id - The ID of the generator.
+ * @property serviceName - The name of the service.
+ * @property replicaId - The ID of the replica whose override is generated, the global variable is generated if not set.
+ * @property key - The key of the generated variable.
+ * @property spec - The parameters of the generator.
+ * @property status - The status of the generator.
+ * @property previousValue - The value before the generator was attached, restored when it is detached.
+ * @property previousOverridden - Whether the replica had an override before the generator was attached.
+ * @property currentValue - The last generated value.
+ * @property lastTickAt - The time the last value was generated.
+ * @property lastError - The reason the last generated value was rejected, cleared once a value is accepted.
+ * @property elapsedMs - The running time in milliseconds accumulated before the last pause.
+ * @property attachedAt - The time the generator was attached.
+ */
+export interface VariableGenerator {
+  id: string;
+  serviceName: string;
+  replicaId?: string;
+  key: string;
+  spec: GeneratorSpec;
+  status: GeneratorStatus;
+  previousValue?: any;
+  previousOverridden: boolean;
+  currentValue?: number;
+  lastTickAt?: Date;
+  lastError?: string;
+  elapsedMs: number;
+  attachedAt: Date;
+}
@@ -0,0 +1,134 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { GeneratorService } from './generator.service';
+import { AttachGeneratorDto } from './dto/attach-generator.dto';
+import { VariableGenerator } from './entities/variable-generator.entity';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiQuery,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { VariableValidationErrorResponseDto } from 'src/configuration/dto/variable-validation.dto';
+import { VariableGeneratorDto } from './dto/variable-generator.dto';
+
+/**
+ * Controller for handling generators of time-varying variables.
+ */
+@ApiTags('generators')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('generators')
+export class GeneratorController {
+  /**
+   * Creates an instance of the GeneratorController class.
+   * @param generatorService The generator service.
+   */
+  constructor(private readonly generatorService: GeneratorService) {}
+
+  /**
+   * HTTP Endpoint to attach a generator to a variable.
+   * @param attachGeneratorDto - The DTO containing the variable and the generator parameters.
+   * @returns The attached generator.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Attach a generator to a variable' })
+  @ApiCreatedResponse({ type: VariableGeneratorDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  attachGenerator(
+    @Body() attachGeneratorDto: AttachGeneratorDto,
+  ): VariableGenerator {
+    return this.generatorService.attach(attachGeneratorDto);
+  }
+
+  /**
+   * HTTP Endpoint to get all generators.
+   * @param service - Only get the generators of this service, if set.
+   * @returns The generators including their current values.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all generators' })
+  @ApiOkResponse({ type: [VariableGeneratorDto] })
+  @ApiQuery({ name: 'service', required: false })
+  getGenerators(@Query('service') service?: string): VariableGenerator[] {
+    return this.generatorService.findAll(service);
+  }
+
+  /**
+   * HTTP Endpoint to get a generator.
+   * @param id - The ID of the generator.
+   * @returns The generator including its current value.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a generator' })
+  @ApiOkResponse({ type: VariableGeneratorDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getGenerator(@Param('id') id: string): VariableGenerator {
+    return this.generatorService.findOne(id);
+  }
+
+  /**
+   * HTTP Endpoint to pause a running generator.
+   * @param id - The ID of the generator.
+   * @returns The generator.
+   */
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause a generator' })
+  @ApiCreatedResponse({ type: VariableGeneratorDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  pauseGenerator(@Param('id') id: string): VariableGenerator {
+    return this.generatorService.pause(id);
+  }
+
+  /**
+   * HTTP Endpoint to resume a paused generator.
+   * @param id - The ID of the generator.
+   * @returns The generator.
+   */
+  @Post(':id/resume')
+  @ApiOperation({ summary: 'Resume a generator' })
+  @ApiCreatedResponse({ type: VariableGeneratorDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  resumeGenerator(@Param('id') id: string): VariableGenerator {
+    return this.generatorService.resume(id);
+  }
+
+  /**
+   * HTTP Endpoint to detach a generator, restoring the previous value of the variable.
+   * @param id - The ID of the generator.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Detach a generator' })
+  @ApiNoContentResponse({ description: 'The generator was detached' })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  detachGenerator(@Param('id') id: string): void {
+    this.generatorService.detach(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { GeneratorController } from './generator.controller';
+import { GeneratorService } from './generator.service';
+
+/**
+ * Module for handling generators of time-varying variables.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [GeneratorService, Logger],
+  controllers: [GeneratorController],
+})
+export class GeneratorModule {}
@@ -0,0 +1,472 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { AppConfig } from 'src/app-config/app-config';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import {
+  ConfigurationVariableDefinition,
+  ServiceConfiguration,
+  ServiceReplica,
+} from 'src/configuration/entities/service-configuration.entity';
+import { VariableChangeSet } from 'src/configuration/entities/variable-change-set.entity';
+import { AttachGeneratorDto } from './dto/attach-generator.dto';
+import {
+  GeneratorSpec,
+  GeneratorType,
+  VariableGenerator,
+} from './entities/variable-generator.entity';
+
+// parameters every generator type requires
+const REQUIRED_PARAMETERS: Record<GeneratorType, (keyof GeneratorSpec)[]> = {
+  ramp: ['from', 'to', 'durationMs'],
+  step: ['from', 'to', 'steps', 'durationMs'],
+  sine: ['baseline', 'amplitude', 'periodMs'],
+  'random-walk': ['from', 'maxStep'],
+};
+
+/**
+ * The variable a generator is attached to.
+ * @property service - The service configuration.
+ * @property replica - The replica, not set for global variables.
+ * @property definition - The definition of the variable.
+ */
+interface GeneratorTarget {
+  service: ServiceConfiguration;
+  replica?: ServiceReplica;
+  definition: ConfigurationVariableDefinition;
+}
+
+/**
+ * Service for generating time-varying values of numeric variables.
+ * On every tick the running generators compute their next value, which is clamped to the bounds
+ * of the generator and of the variable schema and validated against the schema.
+ * The values of a service are applied as a whole through the configuration service, which checks
+ * the cross-variable constraints, stores and publishes them and emits change events,
+ * but records no revision in the change history.
+ */
+@Injectable()
+export class GeneratorService implements OnModuleInit, OnModuleDestroy {
+  // in-memory store of generators by ID
+  private readonly generators: Map<string, VariableGenerator> = new Map();
+  // time the running generators were (re)started, used to accumulate the elapsed time on pause
+  private readonly resumedAt: Map<string, number> = new Map();
+  private ticker?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleInit() {
+    this.ticker = setInterval(
+      () => this.tick(),
+      this.config.generatorTickIntervalMs,
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.ticker);
+  }
+
+  /**
+   * Attaches a generator to a numeric global variable or replica override and starts it.
+   * @param attachGeneratorDto - The DTO containing the variable and the generator parameters.
+   * @returns The attached generator.
+   * @throws NotFoundException if the service, replica or variable definition is not found.
+   * @throws BadRequestException if the variable is not numeric or a parameter required by the type is missing.
+   * @throws ConflictException if a generator is already attached to the variable.
+   */
+  attach(attachGeneratorDto: AttachGeneratorDto): VariableGenerator {
+    const { serviceName, replicaId, key, spec } = attachGeneratorDto;
+    const service = this.configurationService.findService(serviceName);
+    const definition = this.findNumericDefinition(service, key);
+    const missing = REQUIRED_PARAMETERS[spec.type].filter(
+      (parameter) => spec[parameter] === undefined,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Generator type ${spec.type} requires ${missing.join(', ')}`,
+      );
+    }
+    const existing = this.findAll(serviceName).find(
+      (generator) =>
+        generator.replicaId === replicaId && generator.key === definition.key,
+    );
+    if (existing) {
+      throw new ConflictException(
+        `Generator '${existing.id}' is already attached to variable '${key}'`,
+      );
+    }
+    const current = replicaId
+      ? this.configurationService.findReplica(serviceName, replicaId)
+          .replicaVariables
+      : service.globalVariables;
+    const variable = current.find((variable) => variable.key === key);
+    const generator: VariableGenerator = {
+      id: randomUUID(),
+      serviceName,
+      replicaId,
+      key,
+      spec: { ...spec },
+      status: 'running',
+      previousValue: variable?.value,
+      previousOverridden: !!variable,
+      elapsedMs: 0,
+      attachedAt: new Date(),
+    };
+    this.generators.set(generator.id, generator);
+    this.resumedAt.set(generator.id, Date.now());
+    this.logger.log(
+      `Attached ${spec.type} generator ${generator.id} to variable ${key} of ${replicaId ? `replica ${replicaId} of ` : ''}service ${serviceName}`,
+    );
+    this.tick([generator]);
+    return generator;
+  }
+
+  /**
+   * Retrieves all generators.
+   * @param serviceName - Only retrieve the generators of this service, if set.
+   * @returns The generators.
+   */
+  findAll(serviceName?: string): VariableGenerator[] {
+    return Array.from(this.generators.values()).filter(
+      (generator) => !serviceName || generator.serviceName === serviceName,
+    );
+  }
+
+  /**
+   * Retrieves a generator by ID.
+   * @param id - The ID of the generator.
+   * @returns The generator.
+   * @throws NotFoundException if the generator is not found.
+   */
+  findOne(id: string): VariableGenerator {
+    const generator = this.generators.get(id);
+    if (!generator) {
+      throw new NotFoundException(`Generator '${id}' not found`);
+    }
+    return generator;
+  }
+
+  /**
+   * Pauses a running generator, the last generated value is kept.
+   * @param id - The ID of the generator.
+   * @returns The generator.
+   * @throws NotFoundException if the generator is not found.
+   * @throws ConflictException if the generator is not running.
+   */
+  pause(id: string): VariableGenerator {
+    const generator = this.findOne(id);
+    if (generator.status !== 'running') {
+      throw new ConflictException(`Generator '${id}' is not running`);
+    }
+    generator.elapsedMs += Date.now() - (this.resumedAt.get(id) ?? Date.now());
+    this.resumedAt.delete(id);
+    generator.status = 'paused';
+    this.logger.log(`Paused generator ${id} at ${generator.elapsedMs}ms`);
+    return generator;
+  }
+
+  /**
+   * Resumes a paused generator where it was paused.
+   * @param id - The ID of the generator.
+   * @returns The generator.
+   * @throws NotFoundException if the generator is not found.
+   * @throws ConflictException if the generator is not paused.
+   */
+  resume(id: string): VariableGenerator {
+    const generator = this.findOne(id);
+    if (generator.status !== 'paused') {
+      throw new ConflictException(`Generator '${id}' is not paused`);
+    }
+    this.resumedAt.set(id, Date.now());
+    generator.status = 'running';
+    this.logger.log(`Resumed generator ${id} at ${generator.elapsedMs}ms`);
+    return generator;
+  }
+
+  /**
+   * Detaches a generator and restores the value the variable had before it was attached.
+   * @param id - The ID of the generator.
+   * @throws NotFoundException if the generator is not found.
+   * @throws BadRequestException if the previous value violates a constraint, the generator stays attached.
+   */
+  detach(id: string): void {
+    const generator = this.findOne(id);
+    if (this.findTarget(generator)) {
+      this.configurationService.applyChangeSets(
+        [this.toRestoreChangeSet(generator)],
+        {},
+        false,
+      );
+    }
+    this.generators.delete(id);
+    this.resumedAt.delete(id);
+    this.logger.log(`Detached generator ${id}`);
+  }
+
+  /**
+   * Generates the next values of running generators and applies the changed values, one change set per service.
+   * If a service rejects its change set, all of its generators keep their previous value and report the error.
+   * Generators whose service, replica or variable no longer exists are detached.
+   * @param generators - The generators to evaluate, all running generators if not set.
+   */
+  tick(
+    generators: VariableGenerator[] = this.findAll().filter(
+      (generator) => generator.status === 'running',
+    ),
+  ) {
+    const now = Date.now();
+    // changed values and their generators per service
+    const pending: Map<
+      string,
+      { changeSet: VariableChangeSet; generated: [VariableGenerator, number][] }
+    > = new Map();
+    generators.forEach((generator) => {
+      const target = this.findTarget(generator);
+      if (!target) {
+        this.logger.warn(
+          `Variable ${generator.key} of generator ${generator.id} no longer exists, detaching generator`,
+        );
+        this.generators.delete(generator.id);
+        this.resumedAt.delete(generator.id);
+        return;
+      }
+      const { service, replica, definition } = target;
+      const elapsedMs =
+        generator.elapsedMs + now - (this.resumedAt.get(generator.id) ?? now);
+      const value = this.clamp(
+        this.generate(generator, elapsedMs),
+        generator.spec,
+        definition,
+      );
+      generator.lastTickAt = new Date(now);
+      const variable = { key: generator.key, value };
+      const errors = this.configurationService.collectValidationErrors(
+        [variable],
+        service.name,
+        replica?.id,
+      );
+      if (errors.length > 0) {
+        this.reject(
+          generator,
+          value,
+          errors.map((error) => error.message),
+        );
+        return;
+      }
+      const stored = (
+        replica ? replica.replicaVariables : service.globalVariables
+      ).find(({ key }) => key === generator.key);
+      if (stored?.value === value) {
+        generator.lastError = undefined;
+        generator.currentValue = value;
+        return;
+      }
+      const entry = pending.get(service.name) ?? {
+        changeSet: {
+          serviceName: service.name,
+          globalVariables: [],
+          replicas: [],
+        },
+        generated: [],
+      };
+      if (replica) {
+        entry.changeSet.replicas?.push({
+          replicaId: replica.id,
+          variables: [variable],
+        });
+      } else {
+        entry.changeSet.globalVariables?.push(variable);
+      }
+      entry.generated.push([generator, value]);
+      pending.set(service.name, entry);
+    });
+    pending.forEach(({ changeSet, generated }) => {
+      try {
+        this.configurationService.applyChangeSets([changeSet], {}, false);
+        generated.forEach(([generator, value]) => {
+          generator.lastError = undefined;
+          generator.currentValue = value;
+        });
+      } catch (error) {
+        const response = error.getResponse?.();
+        const messages: string[] = Array.isArray(response?.message)
+          ? response.message
+          : [error.message];
+        generated.forEach(([generator, value]) =>
+          this.reject(generator, value, messages),
+        );
+      }
+    });
+  }
+
+  /**
+   * Records that a generated value was rejected, the variable keeps its previous value.
+   * @param generator - The generator.
+   * @param value - The rejected value.
+   * @param messages - The reasons of the rejection.
+   */
+  private reject(
+    generator: VariableGenerator,
+    value: number,
+    messages: string[],
+  ) {
+    generator.lastError = messages.join(', ');
+    this.logger.warn(
+      `Value ${value} of generator ${generator.id} rejected: ${generator.lastError}`,
+    );
+  }
+
+  /**
+   * Computes the raw value of a generator.
+   * @param generator - The generator.
+   * @param elapsedMs - The running time of the generator in milliseconds.
+   * @returns The generated value before clamping.
+   */
+  private generate(generator: VariableGenerator, elapsedMs: number): number {
+    const {
+      type,
+      from = 0,
+      to = 0,
+      durationMs = 1,
+      steps = 1,
+      baseline = 0,
+      amplitude = 0,
+      periodMs = 1,
+      maxStep = 0,
+    } = generator.spec;
+    const progress = Math.min(elapsedMs / durationMs, 1);
+    switch (type) {
+      case 'ramp':
+        return from + (to - from) * progress;
+      case 'step':
+        return from + ((to - from) * Math.floor(progress * steps)) / steps;
+      case 'sine':
+        return (
+          baseline + amplitude * Math.sin((2 * Math.PI * elapsedMs) / periodMs)
+        );
+      case 'random-walk':
+        return (
+          (generator.currentValue ?? from) + (Math.random() * 2 - 1) * maxStep
+        );
+    }
+  }
+
+  /**
+   * Clamps a generated value to the bounds of the generator and the minimum and maximum of the variable schema,
+   * values of integer variables are rounded.
+   * @param value - The generated value.
+   * @param spec - The parameters of the generator.
+   * @param definition - The definition of the variable.
+   * @returns The clamped value.
+   */
+  private clamp(
+    value: number,
+    spec: GeneratorSpec,
+    definition: ConfigurationVariableDefinition,
+  ): number {
+    const schema = definition.type;
+    const bounds = [spec.min, schema.minimum].filter(
+      (bound): bound is number => typeof bound === 'number',
+    );
+    const upperBounds = [spec.max, schema.maximum].filter(
+      (bound): bound is number => typeof bound === 'number',
+    );
+    let clamped = Math.min(Math.max(value, ...bounds), ...upperBounds);
+    if (schema.type === 'integer') {
+      clamped = Math.round(clamped);
+    }
+    return clamped;
+  }
+
+  /**
+   * Finds the definition of a numeric variable.
+   * @param service - The service configuration.
+   * @param key - The key of the variable.
+   * @returns The variable definition.
+   * @throws NotFoundException if the variable definition is not found.
+   * @throws BadRequestException if the variable is neither a number nor an integer.
+   */
+  private findNumericDefinition(
+    service: ServiceConfiguration,
+    key: string,
+  ): ConfigurationVariableDefinition {
+    const definition = service.variableDefinitions.find(
+      (definition) => definition.key === key,
+    );
+    if (!definition) {
+      throw new NotFoundException(`Variable definition not found for ${key}`);
+    }
+    if (!['number', 'integer'].includes(definition.type.type)) {
+      throw new BadRequestException(
+        `Variable '${key}' is not numeric and can not be generated`,
+      );
+    }
+    return definition;
+  }
+
+  /**
+   * Resolves the service, replica and variable definition of a generator.
+   * @param generator - The generator.
+   * @returns The target of the generator or undefined if it no longer exists.
+   */
+  private findTarget(
+    generator: VariableGenerator,
+  ): GeneratorTarget | undefined {
+    if (
+      !this.configurationService
+        .findAllServiceNames()
+        .includes(generator.serviceName)
+    ) {
+      return undefined;
+    }
+    const service = this.configurationService.findService(
+      generator.serviceName,
+    );
+    const replica = service.replicas.find(
+      ({ id }) => id === generator.replicaId,
+    );
+    const definition = service.variableDefinitions.find(
+      ({ key }) => key === generator.key,
+    );
+    if ((generator.replicaId && !replica) || !definition) {
+      return undefined;
+    }
+    return { service, replica, definition };
+  }
+
+  /**
+   * Builds the change set restoring the value a variable had before the generator was attached.
+   * Replicas without an override before the generator was attached get their override removed.
+   * @param generator - The generator.
+   * @returns The change set.
+   */
+  private toRestoreChangeSet(generator: VariableGenerator): VariableChangeSet {
+    const variable = { key: generator.key, value: generator.previousValue };
+    if (!generator.replicaId) {
+      return {
+        serviceName: generator.serviceName,
+        globalVariables: [variable],
+      };
+    }
+    return {
+      serviceName: generator.serviceName,
+      replicas: [
+        {
+          replicaId: generator.replicaId,
+          variables: generator.previousOverridden ? [variable] : [],
+          clearedOverrides: generator.previousOverridden ? [] : [generator.key],
+        },
+      ],
+    };
+  }
+}
@@ -1,8 +1,12 @@
 import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorator';
 
 /**
  * Controller for Health checks
  */
+@ApiTags('health')
+@Public()
 @Controller('health')
 export class HealthController {
   /**
@@ -10,6 +14,13 @@ export class HealthController {
    * @returns a JSON including the health status of the application.
    */
   @Get()
+  @ApiOperation({ summary: 'Get the health status of the service' })
+  @ApiOkResponse({
+    schema: {
+      type: 'object',
+      properties: { status: { type: 'string', example: 'OK' } },
+    },
+  })
   getHealth(): { status: string } {
     return { status: 'OK' };
   }
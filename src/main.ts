@@ -3,6 +3,9 @@ import { AppModule } from './app.module';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import { logger } from './shared/logger/winston.config';
 import { LoggingValidationPipe } from './shared/pipes/logging-validation.pipe';
+import { SwaggerModule } from '@nestjs/swagger';
+import { DOCS_PATH, createOpenApiDocument } from './shared/openapi/openapi';
+import { AppConfig } from './app-config/app-config';
 
 /**
  * Initializes and starts the application.
@@ -14,7 +17,12 @@ async function bootstrap() {
   app.useBodyParser('json', {
     type: ['application/json', 'application/cloudevents+json'],
   });
-  await app.listen(8080);
+  // YAML configuration documents are parsed by the import endpoint itself
+  app.useBodyParser('text', {
+    type: ['application/yaml', 'application/x-yaml', 'text/yaml'],
+  });
+  SwaggerModule.setup(DOCS_PATH, app, createOpenApiDocument(app));
+  await app.listen(app.get(AppConfig).port);
 
   app.useLogger(logger);
 
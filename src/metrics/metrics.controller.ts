@@ -0,0 +1,40 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Controller exposing the Prometheus metrics.
+ * Scraped by Prometheus, so it is reachable without authentication.
+ */
+@ApiTags('metrics')
+@Public()
+@Controller('metrics')
+export class MetricsController {
+  /**
+   * Creates an instance of the MetricsController class.
+   * @param metricsService The metrics service.
+   * @param configurationService The configuration service.
+   */
+  constructor(
+    private readonly metricsService: MetricsService,
+    private readonly configurationService: ConfigurationService,
+  ) {}
+
+  /**
+   * HTTP Endpoint to get the metrics in the Prometheus text format.
+   * @param response - The response, used to set the content type.
+   * @returns The metrics.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the metrics in the Prometheus text format' })
+  @ApiOkResponse({ content: { 'text/plain': { schema: { type: 'string' } } } })
+  getMetrics(@Res({ passthrough: true }) response: Response): Promise<string> {
+    response.type(this.metricsService.getContentType());
+    return this.metricsService.getMetrics(
+      this.configurationService.findAllServices(),
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Module for collecting and exposing Prometheus metrics.
+ * It is global, so every module can record metrics without importing it.
+ */
+@Global()
+@Module({
+  imports: [ConfigurationModule],
+  providers: [MetricsService],
+  controllers: [MetricsController],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { ServiceConfiguration } from 'src/configuration/entities/service-configuration.entity';
+
+// prefix of all metric names
+const PREFIX = 'experiment_config_';
+
+/**
+ * Service holding the Prometheus metrics of the application.
+ */
+@Injectable()
+export class MetricsService {
+  // registry of all metrics, including the default Node.js process metrics
+  private readonly registry = new Registry();
+
+  private readonly services = new Gauge({
+    name: `${PREFIX}services`,
+    help: 'Number of registered services',
+    registers: [this.registry],
+  });
+  private readonly replicas = new Gauge({
+    name: `${PREFIX}replicas`,
+    help: 'Number of replicas of registered services by liveness',
+    labelNames: ['liveness'],
+    registers: [this.registry],
+  });
+  private readonly heartbeats = new Counter({
+    name: `${PREFIX}heartbeats_total`,
+    help: 'Number of received heartbeats',
+    labelNames: ['service'],
+    registers: [this.registry],
+  });
+  private readonly registrations = new Counter({
+    name: `${PREFIX}registrations_total`,
+    help: 'Number of finished service registrations by outcome',
+    labelNames: ['outcome'],
+    registers: [this.registry],
+  });
+  private readonly definitionFetchFailures = new Counter({
+    name: `${PREFIX}definition_fetch_failures_total`,
+    help: 'Number of failed requests for variable definitions to service sidecars',
+    labelNames: ['service'],
+    registers: [this.registry],
+  });
+  private readonly validationFailures = new Counter({
+    name: `${PREFIX}validation_failures_total`,
+    help: 'Number of variable updates rejected because of invalid variables',
+    labelNames: ['service'],
+    registers: [this.registry],
+  });
+  private readonly publishes = new Counter({
+    name: `${PREFIX}publishes_total`,
+    help: 'Number of configuration publishes by result',
+    labelNames: ['result'],
+    registers: [this.registry],
+  });
+  private readonly publishDuration = new Histogram({
+    name: `${PREFIX}publish_duration_seconds`,
+    help: 'Duration of configuration publishes to the Dapr sidecar',
+    labelNames: ['result'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+  private readonly outboxEntries = new Gauge({
+    name: `${PREFIX}outbox_entries`,
+    help: 'Number of configurations in the publish outbox by state',
+    labelNames: ['state'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Counts a received heartbeat.
+   * @param serviceName - The name of the service.
+   */
+  recordHeartbeat(serviceName: string) {
+    this.heartbeats.inc({ service: serviceName });
+  }
+
+  /**
+   * Counts a finished service registration.
+   * @param outcome - Whether the service was registered or the registration failed.
+   */
+  recordRegistration(outcome: 'registered' | 'failed') {
+    this.registrations.inc({ outcome });
+  }
+
+  /**
+   * Counts a failed request for variable definitions.
+   * @param serviceName - The name of the service.
+   */
+  recordDefinitionFetchFailure(serviceName: string) {
+    this.definitionFetchFailures.inc({ service: serviceName });
+  }
+
+  /**
+   * Counts a variable update rejected because of invalid variables.
+   * @param serviceName - The name of the service.
+   */
+  recordValidationFailure(serviceName: string) {
+    this.validationFailures.inc({ service: serviceName });
+  }
+
+  /**
+   * Starts timing a configuration publish.
+   * @returns A function that ends the timing and counts the publish with its result.
+   */
+  startPublish(): (result: 'success' | 'failure') => void {
+    const endTimer = this.publishDuration.startTimer();
+    return (result) => {
+      endTimer({ result });
+      this.publishes.inc({ result });
+    };
+  }
+
+  /**
+   * Sets the number of configurations in the publish outbox.
+   * @param pending - The number of configurations waiting to be published.
+   * @param dead - The number of dead-lettered configurations.
+   */
+  setOutboxEntries(pending: number, dead: number) {
+    this.outboxEntries.set({ state: 'pending' }, pending);
+    this.outboxEntries.set({ state: 'dead' }, dead);
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text format.
+   * The service and replica gauges are updated from the given configurations first.
+   * @param services - The registered service configurations.
+   * @returns The metrics.
+   */
+  async getMetrics(services: ServiceConfiguration[]): Promise<string> {
+    this.services.set(services.length);
+    this.replicas.reset();
+    ['healthy', 'stale', 'dead'].forEach((liveness) =>
+      this.replicas.set({ liveness }, 0),
+    );
+    services
+      .flatMap((service) => service.replicas)
+      .forEach((replica) =>
+        this.replicas.inc({ liveness: replica.liveness ?? 'healthy' }),
+      );
+    return this.registry.metrics();
+  }
+
+  /**
+   * Retrieves the content type of the Prometheus text format.
+   * @returns The content type.
+   */
+  getContentType(): string {
+    return this.registry.contentType;
+  }
+}
@@ -0,0 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO describing the body of an error response.
+ * @property statusCode - The HTTP status code.
+ * @property message - The error message, a list of messages for validation errors.
+ * @property error - The name of the HTTP status.
+ */
+export class ErrorResponseDto {
+  @ApiProperty({ example: 404 })
+  statusCode: number;
+  @ApiProperty({
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+  })
+  message: string | string[];
+  @ApiPropertyOptional({ example: 'Not Found' })
+  error?: string;
+}
@@ -0,0 +1,47 @@
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { IncomingMessage } from 'http';
+
+// route the GraphQL API and its subscriptions are served at
+export const GRAPHQL_PATH = '/graphql';
+
+/**
+ * Context of the GraphQL operations, available to guards and resolvers.
+ * @property req - The HTTP request, for subscriptions the WebSocket upgrade request.
+ */
+interface GraphQLContext {
+  req: IncomingMessage;
+}
+
+/**
+ * Builds the context of a GraphQL operation.
+ * Browsers can not set headers on WebSocket connections, so subscriptions may also send
+ * their credentials (`Authorization`, `X-API-Key`) as connection parameters.
+ * @param context - The Apollo context of queries and mutations or the graphql-ws context of subscriptions.
+ * @returns The context.
+ */
+function createContext(context: any): GraphQLContext {
+  if (context.req) {
+    return { req: context.req };
+  }
+  const request: IncomingMessage = context.extra.request;
+  Object.entries(context.connectionParams ?? {}).forEach(([key, value]) => {
+    request.headers[key.toLowerCase()] ??= String(value);
+  });
+  return { req: request };
+}
+
+/**
+ * Creates the options of the code-first GraphQL API.
+ * The schema is generated from the resolvers and served together with subscriptions over graphql-ws.
+ * @returns The options of the GraphQL module.
+ */
+export function createGraphQLOptions(): ApolloDriverConfig {
+  return {
+    driver: ApolloDriver,
+    path: GRAPHQL_PATH,
+    autoSchemaFile: true,
+    sortSchema: true,
+    subscriptions: { 'graphql-ws': true },
+    context: createContext,
+  };
+}
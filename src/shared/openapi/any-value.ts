@@ -0,0 +1,16 @@
+import { ApiPropertyOptions } from '@nestjs/swagger';
+
+/**
+ * Schema options for properties holding arbitrary JSON values, e.g. variable values
+ * whose actual type is defined by the JSON Schema of the variable.
+ */
+export const ANY_VALUE: ApiPropertyOptions = {
+  oneOf: [
+    { type: 'string' },
+    { type: 'number' },
+    { type: 'boolean' },
+    { type: 'object' },
+    { type: 'array', items: {} },
+  ],
+  nullable: true,
+};
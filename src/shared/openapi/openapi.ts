@@ -0,0 +1,23 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+
+// route the Swagger UI is served at, the JSON document is served at `${DOCS_PATH}-json`
+export const DOCS_PATH = 'docs';
+
+/**
+ * Generates the OpenAPI document of all controllers of the application.
+ * @param app - The application.
+ * @returns The OpenAPI document.
+ */
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('MiSArch Experiment Config')
+    .setDescription(
+      'Manages the configuration variables of the services under experiment and publishes them to their sidecars.',
+    )
+    .setVersion(process.env.npm_package_version ?? '0.0.1')
+    .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
+    .build();
+  return SwaggerModule.createDocument(app, config);
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ConfigurationVariableDto } from 'src/configuration/dto/service-configuration.dto';
+import {
+  ConfigurationSnapshot,
+  ReplicaSnapshot,
+  ServiceSnapshot,
+  SnapshotApplyResult,
+} from '../entities/configuration-snapshot.entity';
+
+/**
+ * DTO for the captured overrides of a replica.
+ * @property id - The ID of the replica.
+ * @property variables - The overrides of the replica.
+ */
+export class ReplicaSnapshotDto implements ReplicaSnapshot {
+  @ApiProperty()
+  id: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  variables: ConfigurationVariableDto[];
+}
+
+/**
+ * DTO for the captured configuration of a service.
+ * @property name - The name of the service.
+ * @property globalVariables - The global variables of the service.
+ * @property replicas - The overrides of every replica of the service.
+ */
+export class ServiceSnapshotDto implements ServiceSnapshot {
+  @ApiProperty()
+  name: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  globalVariables: ConfigurationVariableDto[];
+  @ApiProperty({ type: [ReplicaSnapshotDto] })
+  replicas: ReplicaSnapshotDto[];
+}
+
+/**
+ * DTO for a named snapshot of the configuration of all services.
+ * @property name - The unique name of the snapshot.
+ * @property description - Optional description of the snapshot.
+ * @property createdAt - The time the snapshot was created.
+ * @property services - The captured service configurations.
+ */
+export class ConfigurationSnapshotDto implements ConfigurationSnapshot {
+  @ApiProperty()
+  name: string;
+  @ApiPropertyOptional()
+  description?: string;
+  @ApiProperty()
+  createdAt: Date;
+  @ApiProperty({ type: [ServiceSnapshotDto] })
+  services: ServiceSnapshotDto[];
+}
+
+/**
+ * DTO for the result of applying a snapshot.
+ * @property snapshot - The name of the applied snapshot.
+ * @property appliedServices - The names of the services the snapshot was applied to.
+ * @property missingServices - The names of captured services that no longer exist.
+ * @property missingReplicas - The IDs of captured replicas that no longer exist, per service.
+ */
+export class SnapshotApplyResultDto implements SnapshotApplyResult {
+  @ApiProperty()
+  snapshot: string;
+  @ApiProperty({ type: [String] })
+  appliedServices: string[];
+  @ApiProperty({ type: [String] })
+  missingServices: string[];
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'array', items: { type: 'string' } },
+  })
+  missingReplicas: Record<string, string[]>;
+}
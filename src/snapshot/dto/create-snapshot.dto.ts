@@ -0,0 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for creating a configuration snapshot.
+ * @property name - The unique name of the snapshot.
+ * @property description - Optional description of the snapshot.
+ */
+export class CreateSnapshotDto {
+  @ApiProperty({ example: 'baseline' })
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
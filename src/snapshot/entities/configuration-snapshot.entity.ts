@@ -0,0 +1,51 @@
+import { ConfigurationVariable } from 'src/configuration/entities/service-configuration.entity';
+
+/**
+ * Represents the captured overrides of a replica.
+ * @property id - The ID of the replica.
+ * @property variables - The overrides of the replica.
+ */
+export interface ReplicaSnapshot {
+  id: string;
+  variables: ConfigurationVariable[];
+}
+
+/**
+ * Represents the captured configuration of a service.
+ * @property name - The name of the service.
+ * @property globalVariables - The global variables of the service.
+ * @property replicas - The overrides of every replica of the service.
+ */
+export interface ServiceSnapshot {
+  name: string;
+  globalVariables: ConfigurationVariable[];
+  replicas: ReplicaSnapshot[];
+}
+
+/**
+ * Represents a named snapshot of the configuration of all services.
+ * @property name - The unique name of the snapshot.
+ * @property description - Optional description of the snapshot.
+ * @property createdAt - The time the snapshot was created.
+ * @property services - The captured service configurations.
+ */
+export interface ConfigurationSnapshot {
+  name: string;
+  description?: string;
+  createdAt: Date;
+  services: ServiceSnapshot[];
+}
+
+/**
+ * Result of applying a snapshot.
+ * @property snapshot - The name of the applied snapshot.
+ * @property appliedServices - The names of the services the snapshot was applied to.
+ * @property missingServices - The names of captured services that no longer exist.
+ * @property missingReplicas - The IDs of captured replicas that no longer exist, per service.
+ */
+export interface SnapshotApplyResult {
+  snapshot: string;
+  appliedServices: string[];
+  missingServices: string[];
+  missingReplicas: Record<string, string[]>;
+}
@@ -0,0 +1,136 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { SnapshotService } from './snapshot.service';
+import { CreateSnapshotDto } from './dto/create-snapshot.dto';
+import { ChangeContextDto } from 'src/configuration/dto/change-context.dto';
+import {
+  ConfigurationSnapshot,
+  SnapshotApplyResult,
+} from './entities/configuration-snapshot.entity';
+import { toChangeContext } from 'src/auth/change-context';
+import { Identity } from 'src/auth/decorators/identity.decorator';
+import { AuthIdentity } from 'src/auth/entities/auth-identity.entity';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { VariableValidationErrorResponseDto } from 'src/configuration/dto/variable-validation.dto';
+import {
+  ConfigurationSnapshotDto,
+  SnapshotApplyResultDto,
+} from './dto/configuration-snapshot.dto';
+
+/**
+ * Controller for handling configuration snapshots.
+ */
+@ApiTags('snapshots')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('snapshots')
+export class SnapshotController {
+  /**
+   * Creates an instance of the SnapshotController class.
+   * @param snapshotService The snapshot service.
+   */
+  constructor(private readonly snapshotService: SnapshotService) {}
+
+  /**
+   * HTTP Endpoint to capture the configuration of all services as a snapshot.
+   * @param createSnapshotDto - The DTO containing the name and description of the snapshot.
+   * @returns The created snapshot.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Capture a snapshot of all services' })
+  @ApiCreatedResponse({ type: ConfigurationSnapshotDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  createSnapshot(
+    @Body() createSnapshotDto: CreateSnapshotDto,
+  ): ConfigurationSnapshot {
+    return this.snapshotService.create(
+      createSnapshotDto.name,
+      createSnapshotDto.description,
+    );
+  }
+
+  /**
+   * HTTP Endpoint to get all snapshots.
+   * @returns All snapshots.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all snapshots' })
+  @ApiOkResponse({ type: [ConfigurationSnapshotDto] })
+  getSnapshots(): ConfigurationSnapshot[] {
+    return this.snapshotService.findAll();
+  }
+
+  /**
+   * HTTP Endpoint to get a snapshot.
+   * @param name - The name of the snapshot.
+   * @returns The snapshot.
+   */
+  @Get(':name')
+  @ApiOperation({ summary: 'Get a snapshot' })
+  @ApiOkResponse({ type: ConfigurationSnapshotDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getSnapshot(@Param('name') name: string): ConfigurationSnapshot {
+    return this.snapshotService.findOne(name);
+  }
+
+  /**
+   * HTTP Endpoint to delete a snapshot.
+   * @param name - The name of the snapshot.
+   */
+  @Delete(':name')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a snapshot' })
+  @ApiNoContentResponse({ description: 'The snapshot was deleted' })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  deleteSnapshot(@Param('name') name: string): void {
+    this.snapshotService.delete(name);
+  }
+
+  /**
+   * HTTP Endpoint to re-apply a snapshot to all services.
+   * @param name - The name of the snapshot.
+   * @param changeContextDto - The DTO containing the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The applied services and the services and replicas that no longer exist.
+   */
+  @Post(':name/apply')
+  @ApiOperation({ summary: 'Re-apply a snapshot to all services' })
+  @ApiCreatedResponse({ type: SnapshotApplyResultDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  applySnapshot(
+    @Param('name') name: string,
+    @Body() changeContextDto: ChangeContextDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): SnapshotApplyResult {
+    return this.snapshotService.apply(
+      name,
+      toChangeContext(changeContextDto, identity),
+    );
+  }
+}
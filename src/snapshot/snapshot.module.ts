@@ -0,0 +1,14 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { SnapshotController } from './snapshot.controller';
+import { SnapshotService } from './snapshot.service';
+
+/**
+ * Module for handling configuration snapshots.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [SnapshotService, Logger],
+  controllers: [SnapshotController],
+})
+export class SnapshotModule {}
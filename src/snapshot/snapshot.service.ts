@@ -0,0 +1,158 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { ChangeContext } from 'src/configuration/entities/configuration-revision.entity';
+import { VariableChangeSet } from 'src/configuration/entities/variable-change-set.entity';
+import {
+  ConfigurationSnapshot,
+  SnapshotApplyResult,
+} from './entities/configuration-snapshot.entity';
+
+/**
+ * Service for saving and re-applying snapshots of the whole system configuration.
+ */
+@Injectable()
+export class SnapshotService {
+  // in-memory store of snapshots by name
+  private readonly snapshots: Map<string, ConfigurationSnapshot> = new Map();
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Captures the current global variables and replica overrides of all services as a named snapshot.
+   * @param name - The unique name of the snapshot.
+   * @param description - Optional description of the snapshot.
+   * @returns The created snapshot.
+   * @throws ConflictException if a snapshot with the name already exists.
+   */
+  create(name: string, description?: string): ConfigurationSnapshot {
+    if (this.snapshots.has(name)) {
+      throw new ConflictException(`Snapshot '${name}' already exists`);
+    }
+    const snapshot: ConfigurationSnapshot = {
+      name,
+      description,
+      createdAt: new Date(),
+      services: this.configurationService.findAllServices().map((service) => ({
+        name: service.name,
+        globalVariables: structuredClone(service.globalVariables),
+        replicas: service.replicas.map((replica) => ({
+          id: replica.id,
+          variables: structuredClone(replica.replicaVariables),
+        })),
+      })),
+    };
+    this.snapshots.set(name, snapshot);
+    this.logger.log(`Created snapshot ${name}`);
+    return snapshot;
+  }
+
+  /**
+   * Retrieves all snapshots.
+   * @returns All snapshots.
+   */
+  findAll(): ConfigurationSnapshot[] {
+    return Array.from(this.snapshots.values());
+  }
+
+  /**
+   * Retrieves a snapshot by name.
+   * @param name - The name of the snapshot.
+   * @returns The snapshot.
+   * @throws NotFoundException if the snapshot is not found.
+   */
+  findOne(name: string): ConfigurationSnapshot {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) {
+      throw new NotFoundException(`Snapshot '${name}' not found`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Deletes a snapshot by name.
+   * @param name - The name of the snapshot.
+   * @throws NotFoundException if the snapshot is not found.
+   */
+  delete(name: string): void {
+    this.findOne(name);
+    this.snapshots.delete(name);
+  }
+
+  /**
+   * Re-applies a snapshot to all services and replicas that still exist.
+   * Every variable is validated against the current variable definitions first,
+   * if anything is invalid nothing is applied.
+   * @param name - The name of the snapshot.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The applied services and the services and replicas that no longer exist.
+   * @throws NotFoundException if the snapshot is not found.
+   * @throws BadRequestException if a variable does not match its current definition.
+   */
+  apply(name: string, context: ChangeContext = {}): SnapshotApplyResult {
+    const snapshot = this.findOne(name);
+    const knownServices = this.configurationService.findAllServiceNames();
+    const result: SnapshotApplyResult = {
+      snapshot: name,
+      appliedServices: [],
+      missingServices: [],
+      missingReplicas: {},
+    };
+    const changeSets: VariableChangeSet[] = [];
+    snapshot.services.forEach((serviceSnapshot) => {
+      if (!knownServices.includes(serviceSnapshot.name)) {
+        result.missingServices.push(serviceSnapshot.name);
+        return;
+      }
+      const { replicas } = this.configurationService.findService(
+        serviceSnapshot.name,
+      );
+      const missingReplicas = serviceSnapshot.replicas
+        .filter((captured) => !replicas.some(({ id }) => id === captured.id))
+        .map((captured) => captured.id);
+      if (missingReplicas.length > 0) {
+        result.missingReplicas[serviceSnapshot.name] = missingReplicas;
+      }
+      changeSets.push({
+        serviceName: serviceSnapshot.name,
+        globalVariables: serviceSnapshot.globalVariables,
+        replicas: serviceSnapshot.replicas.flatMap((captured) => {
+          const replica = replicas.find(({ id }) => id === captured.id);
+          if (!replica) {
+            return [];
+          }
+          // overrides added after the snapshot was taken are removed
+          const clearedOverrides = replica.replicaVariables
+            .filter(
+              (override) =>
+                !captured.variables.some(({ key }) => key === override.key),
+            )
+            .map((override) => override.key);
+          return [
+            {
+              replicaId: captured.id,
+              variables: captured.variables,
+              clearedOverrides,
+            },
+          ];
+        }),
+      });
+    });
+    this.configurationService.applyChangeSets(changeSets, {
+      actor: context.actor,
+      reason: context.reason ?? `Apply snapshot ${name}`,
+    });
+    result.appliedServices = changeSets.map(
+      (changeSet) => changeSet.serviceName,
+    );
+    this.logger.log(`Applied snapshot ${name}: ${JSON.stringify(result)}`);
+    return result;
+  }
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ConfigurationVariableDto } from 'src/configuration/dto/service-configuration.dto';
+
+// largest delay setTimeout supports, larger delays fire immediately
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * DTO for a single timed step of a timeline.
+ * @property offsetMs - The offset in milliseconds from the start of the timeline.
+ * @property serviceName - The name of the service the variables are applied to.
+ * @property replicaId - The ID of the replica, the global variables are updated if not set.
+ * @property variables - The variables to apply.
+ */
+export class TimelineStepDto {
+  @ApiProperty({ description: 'Offset from the start of the timeline' })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_TIMEOUT_MS)
+  offsetMs: number;
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  serviceName: string;
+  @ApiPropertyOptional({
+    description: 'The global variables are updated if not set',
+  })
+  @IsOptional()
+  @IsString()
+  replicaId?: string;
+  @ApiProperty({ type: [ConfigurationVariableDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ConfigurationVariableDto)
+  variables: ConfigurationVariableDto[];
+}
+
+/**
+ * DTO for submitting a timeline.
+ * @property name - Optional name of the timeline.
+ * @property steps - The timed steps of the timeline.
+ */
+export class CreateTimelineDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  name?: string;
+  @ApiProperty({ type: [TimelineStepDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TimelineStepDto)
+  steps: TimelineStepDto[];
+}
@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  Timeline,
+  TimelineStatus,
+  TimelineStep,
+  TimelineStepStatus,
+} from '../entities/timeline.entity';
+import { TimelineStepDto } from './create-timeline.dto';
+
+/**
+ * DTO for a scheduled step of a timeline.
+ * @property index - The position of the step in the timeline.
+ * @property status - The status of the step.
+ * @property firedAt - The time the step fired.
+ * @property error - The error message if the step failed.
+ */
+export class ScheduledTimelineStepDto
+  extends TimelineStepDto
+  implements TimelineStep
+{
+  @ApiProperty()
+  index: number;
+  @ApiProperty({ enum: ['pending', 'fired', 'failed', 'skipped'] })
+  status: TimelineStepStatus;
+  @ApiPropertyOptional()
+  firedAt?: Date;
+  @ApiPropertyOptional()
+  error?: string;
+}
+
+/**
+ * DTO for a timeline of configuration changes.
+ * @property id - The ID of the timeline.
+ * @property name - Optional name of the timeline.
+ * @property status - The status of the timeline.
+ * @property createdAt - The time the timeline was submitted.
+ * @property startedAt - The time the timeline was first started.
+ * @property finishedAt - The time the timeline was completed or aborted.
+ * @property elapsedMs - The execution time in milliseconds accumulated before the last pause.
+ * @property steps - The steps of the timeline, ordered by offset.
+ */
+export class TimelineDto implements Timeline {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+  @ApiPropertyOptional()
+  name?: string;
+  @ApiProperty({
+    enum: ['created', 'running', 'paused', 'aborted', 'completed'],
+  })
+  status: TimelineStatus;
+  @ApiProperty()
+  createdAt: Date;
+  @ApiPropertyOptional()
+  startedAt?: Date;
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+  @ApiProperty()
+  elapsedMs: number;
+  @ApiProperty({ type: [ScheduledTimelineStepDto] })
+  steps: ScheduledTimelineStepDto[];
+}
@@ -0,0 +1,69 @@
+import { ConfigurationVariable } from 'src/configuration/entities/service-configuration.entity';
+
+/**
+ * Status of a timeline.
+ * created - the timeline was submitted but not started yet.
+ * running - the steps are executed at their offsets.
+ * paused - the execution is paused and can be resumed by starting the timeline again.
+ * aborted - the execution was aborted, remaining steps are skipped.
+ * completed - all steps were executed.
+ */
+export type TimelineStatus =
+  | 'created'
+  | 'running'
+  | 'paused'
+  | 'aborted'
+  | 'completed';
+
+/**
+ * Status of a timeline step.
+ * pending - the step has not fired yet.
+ * fired - the variables of the step were applied.
+ * failed - applying the variables failed, e.g. due to a validation failure.
+ * skipped - the timeline was aborted before the step fired.
+ */
+export type TimelineStepStatus = 'pending' | 'fired' | 'failed' | 'skipped';
+
+/**
+ * Represents a single timed step of a timeline.
+ * @property index - The position of the step in the timeline.
+ * @property offsetMs - The offset in milliseconds from the start of the timeline.
+ * @property serviceName - The name of the service the variables are applied to.
+ * @property replicaId - The ID of the replica, the global variables are updated if not set.
+ * @property variables - The variables to apply.
+ * @property status - The status of the step.
+ * @property firedAt - The time the step fired.
+ * @property error - The error message if the step failed.
+ */
+export interface TimelineStep {
+  index: number;
+  offsetMs: number;
+  serviceName: string;
+  replicaId?: string;
+  variables: ConfigurationVariable[];
+  status: TimelineStepStatus;
+  firedAt?: Date;
+  error?: string;
+}
+
+/**
+ * Represents a timeline of configuration changes for an experiment.
+ * @property id - The ID of the timeline.
+ * @property name - Optional name of the timeline.
+ * @property status - The status of the timeline.
+ * @property createdAt - The time the timeline was submitted.
+ * @property startedAt - The time the timeline was first started.
+ * @property finishedAt - The time the timeline was completed or aborted.
+ * @property elapsedMs - The execution time in milliseconds accumulated before the last pause.
+ * @property steps - The steps of the timeline, ordered by offset.
+ */
+export interface Timeline {
+  id: string;
+  name?: string;
+  status: TimelineStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  elapsedMs: number;
+  steps: TimelineStep[];
+}
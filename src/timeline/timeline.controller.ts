@@ -0,0 +1,139 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { TimelineService } from './timeline.service';
+import { CreateTimelineDto } from './dto/create-timeline.dto';
+import { Timeline } from './entities/timeline.entity';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { TimelineDto } from './dto/timeline.dto';
+
+/**
+ * Controller for handling timelines of scheduled configuration changes.
+ */
+@ApiTags('timelines')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('timelines')
+export class TimelineController {
+  /**
+   * Creates an instance of the TimelineController class.
+   * @param timelineService The timeline service.
+   */
+  constructor(private readonly timelineService: TimelineService) {}
+
+  /**
+   * HTTP Endpoint to submit a timeline.
+   * @param createTimelineDto - The DTO containing the steps of the timeline.
+   * @returns The created timeline.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Submit a timeline' })
+  @ApiCreatedResponse({ type: TimelineDto })
+  @ApiBadRequestResponse({ type: ErrorResponseDto })
+  createTimeline(@Body() createTimelineDto: CreateTimelineDto): Timeline {
+    return this.timelineService.create(createTimelineDto);
+  }
+
+  /**
+   * HTTP Endpoint to get all timelines.
+   * @returns All timelines including the status of their steps.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all timelines' })
+  @ApiOkResponse({ type: [TimelineDto] })
+  getTimelines(): Timeline[] {
+    return this.timelineService.findAll();
+  }
+
+  /**
+   * HTTP Endpoint to get a timeline.
+   * @param id - The ID of the timeline.
+   * @returns The timeline including the status of its steps.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a timeline' })
+  @ApiOkResponse({ type: TimelineDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  getTimeline(@Param('id') id: string): Timeline {
+    return this.timelineService.findOne(id);
+  }
+
+  /**
+   * HTTP Endpoint to delete a timeline that is not running.
+   * @param id - The ID of the timeline.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a timeline' })
+  @ApiNoContentResponse({ description: 'The timeline was deleted' })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  deleteTimeline(@Param('id') id: string): void {
+    this.timelineService.delete(id);
+  }
+
+  /**
+   * HTTP Endpoint to start or resume a timeline.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   */
+  @Post(':id/start')
+  @ApiOperation({ summary: 'Start or resume a timeline' })
+  @ApiCreatedResponse({ type: TimelineDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  startTimeline(@Param('id') id: string): Timeline {
+    return this.timelineService.start(id);
+  }
+
+  /**
+   * HTTP Endpoint to pause a running timeline.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   */
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause a timeline' })
+  @ApiCreatedResponse({ type: TimelineDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  pauseTimeline(@Param('id') id: string): Timeline {
+    return this.timelineService.pause(id);
+  }
+
+  /**
+   * HTTP Endpoint to abort a timeline.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   */
+  @Post(':id/abort')
+  @ApiOperation({ summary: 'Abort a timeline' })
+  @ApiCreatedResponse({ type: TimelineDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  @ApiConflictResponse({ type: ErrorResponseDto })
+  abortTimeline(@Param('id') id: string): Timeline {
+    return this.timelineService.abort(id);
+  }
+}
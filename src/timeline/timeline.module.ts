@@ -0,0 +1,14 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { TimelineController } from './timeline.controller';
+import { TimelineService } from './timeline.service';
+
+/**
+ * Module for handling timelines of scheduled configuration changes.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [TimelineService, Logger],
+  controllers: [TimelineController],
+})
+export class TimelineModule {}
@@ -0,0 +1,240 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { CreateTimelineDto } from './dto/create-timeline.dto';
+import { Timeline, TimelineStep } from './entities/timeline.entity';
+
+/**
+ * Service for executing timelines of scheduled configuration changes.
+ * Steps are applied through the regular variable update paths of the configuration service,
+ * so they are validated, recorded in the change history and published like manual updates.
+ */
+@Injectable()
+export class TimelineService implements OnModuleDestroy {
+  // in-memory store of timelines by ID
+  private readonly timelines: Map<string, Timeline> = new Map();
+  // pending step timers of running timelines
+  private readonly timers: Map<string, NodeJS.Timeout[]> = new Map();
+  // time the running timelines were (re)started, used to accumulate the elapsed time on pause
+  private readonly resumedAt: Map<string, number> = new Map();
+
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleDestroy() {
+    this.timers.forEach((timers) => timers.forEach(clearTimeout));
+  }
+
+  /**
+   * Submits a new timeline, it is executed once started.
+   * @param createTimelineDto - The DTO containing the steps of the timeline.
+   * @returns The created timeline.
+   */
+  create(createTimelineDto: CreateTimelineDto): Timeline {
+    const timeline: Timeline = {
+      id: randomUUID(),
+      name: createTimelineDto.name,
+      status: 'created',
+      createdAt: new Date(),
+      elapsedMs: 0,
+      steps: [...createTimelineDto.steps]
+        .sort((a, b) => a.offsetMs - b.offsetMs)
+        .map((step, index) => ({
+          index,
+          offsetMs: step.offsetMs,
+          serviceName: step.serviceName,
+          replicaId: step.replicaId,
+          variables: step.variables,
+          status: 'pending',
+        })),
+    };
+    this.timelines.set(timeline.id, timeline);
+    this.logger.log(`Created timeline ${timeline.id}`);
+    return timeline;
+  }
+
+  /**
+   * Retrieves all timelines.
+   * @returns All timelines.
+   */
+  findAll(): Timeline[] {
+    return Array.from(this.timelines.values());
+  }
+
+  /**
+   * Retrieves a timeline by ID.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   * @throws NotFoundException if the timeline is not found.
+   */
+  findOne(id: string): Timeline {
+    const timeline = this.timelines.get(id);
+    if (!timeline) {
+      throw new NotFoundException(`Timeline '${id}' not found`);
+    }
+    return timeline;
+  }
+
+  /**
+   * Deletes a timeline that is not running.
+   * @param id - The ID of the timeline.
+   * @throws NotFoundException if the timeline is not found.
+   * @throws ConflictException if the timeline is running.
+   */
+  delete(id: string): void {
+    const timeline = this.findOne(id);
+    if (timeline.status === 'running') {
+      throw new ConflictException(
+        `Timeline '${id}' is running and has to be aborted first`,
+      );
+    }
+    this.timelines.delete(id);
+  }
+
+  /**
+   * Starts a created timeline or resumes a paused one.
+   * The remaining steps are scheduled relative to the elapsed execution time.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   * @throws ConflictException if the timeline is neither created nor paused.
+   */
+  start(id: string): Timeline {
+    const timeline = this.findOne(id);
+    if (timeline.status !== 'created' && timeline.status !== 'paused') {
+      throw new ConflictException(
+        `Timeline '${id}' can not be started while ${timeline.status}`,
+      );
+    }
+    timeline.status = 'running';
+    timeline.startedAt ??= new Date();
+    this.resumedAt.set(id, Date.now());
+    this.timers.set(
+      id,
+      timeline.steps
+        .filter((step) => step.status === 'pending')
+        .map((step) =>
+          setTimeout(
+            () => this.fireStep(timeline, step),
+            Math.max(step.offsetMs - timeline.elapsedMs, 0),
+          ),
+        ),
+    );
+    this.logger.log(`Started timeline ${id} at ${timeline.elapsedMs}ms`);
+    this.completeIfDone(timeline);
+    return timeline;
+  }
+
+  /**
+   * Pauses a running timeline, pending steps are kept.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   * @throws ConflictException if the timeline is not running.
+   */
+  pause(id: string): Timeline {
+    const timeline = this.findOne(id);
+    if (timeline.status !== 'running') {
+      throw new ConflictException(`Timeline '${id}' is not running`);
+    }
+    this.clearTimers(timeline);
+    timeline.status = 'paused';
+    this.logger.log(`Paused timeline ${id} at ${timeline.elapsedMs}ms`);
+    return timeline;
+  }
+
+  /**
+   * Aborts a timeline, all pending steps are skipped.
+   * Changes of steps that already fired are not reverted.
+   * @param id - The ID of the timeline.
+   * @returns The timeline.
+   * @throws ConflictException if the timeline is already completed or aborted.
+   */
+  abort(id: string): Timeline {
+    const timeline = this.findOne(id);
+    if (timeline.status === 'completed' || timeline.status === 'aborted') {
+      throw new ConflictException(`Timeline '${id}' is already finished`);
+    }
+    this.clearTimers(timeline);
+    timeline.steps
+      .filter((step) => step.status === 'pending')
+      .forEach((step) => (step.status = 'skipped'));
+    timeline.status = 'aborted';
+    timeline.finishedAt = new Date();
+    this.logger.log(`Aborted timeline ${id}`);
+    return timeline;
+  }
+
+  /**
+   * Applies the variables of a step and records the outcome.
+   * @param timeline - The timeline of the step.
+   * @param step - The step to fire.
+   */
+  private fireStep(timeline: Timeline, step: TimelineStep) {
+    const context = {
+      actor: `timeline:${timeline.id}`,
+      reason: `Step ${step.index} of timeline ${timeline.name ?? timeline.id}`,
+    };
+    try {
+      if (step.replicaId) {
+        this.configurationService.batchAddOrUpdateReplicaVariables(
+          step.serviceName,
+          step.replicaId,
+          step.variables,
+          context,
+        );
+      } else {
+        this.configurationService.batchAddOrUpdateServiceVariables(
+          step.serviceName,
+          step.variables,
+          context,
+        );
+      }
+      step.status = 'fired';
+    } catch (error) {
+      this.logger.error(
+        `{fireStep} Step ${step.index} of timeline ${timeline.id} failed: ${error.message}`,
+      );
+      step.status = 'failed';
+      step.error = error.message;
+    }
+    step.firedAt = new Date();
+    this.completeIfDone(timeline);
+  }
+
+  /**
+   * Marks a running timeline as completed once no step is pending anymore.
+   * @param timeline - The timeline.
+   */
+  private completeIfDone(timeline: Timeline) {
+    if (
+      timeline.status === 'running' &&
+      timeline.steps.every((step) => step.status !== 'pending')
+    ) {
+      this.clearTimers(timeline);
+      timeline.status = 'completed';
+      timeline.finishedAt = new Date();
+      this.logger.log(`Completed timeline ${timeline.id}`);
+    }
+  }
+
+  /**
+   * Clears all pending step timers of a timeline and accumulates its elapsed execution time.
+   * @param timeline - The timeline.
+   */
+  private clearTimers(timeline: Timeline) {
+    const resumedAt = this.resumedAt.get(timeline.id);
+    if (resumedAt !== undefined) {
+      timeline.elapsedMs += Date.now() - resumedAt;
+    }
+    this.timers.get(timeline.id)?.forEach(clearTimeout);
+    this.timers.delete(timeline.id);
+    this.resumedAt.delete(timeline.id);
+  }
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ConfigurationImportMode,
+  ConfigurationImportResult,
+} from '../entities/configuration-import-result.entity';
+
+/**
+ * DTO for the result of importing a configuration document.
+ * @property mode - The mode of the import.
+ * @property appliedServices - The names of the services the document was applied to.
+ * @property missingServices - The names of services in the document that are not registered.
+ * @property missingReplicas - The IDs of replicas in the document that do not exist, per service.
+ */
+export class ConfigurationImportResultDto implements ConfigurationImportResult {
+  @ApiProperty({ enum: ['merge', 'replace'] })
+  mode: ConfigurationImportMode;
+  @ApiProperty({ type: [String] })
+  appliedServices: string[];
+  @ApiProperty({ type: [String] })
+  missingServices: string[];
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'array', items: { type: 'string' } },
+  })
+  missingReplicas: Record<string, string[]>;
+}
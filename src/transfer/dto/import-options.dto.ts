@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { ChangeContextDto } from 'src/configuration/dto/change-context.dto';
+import { ConfigurationImportMode } from '../entities/configuration-import-result.entity';
+
+/**
+ * DTO for the options of a configuration import.
+ * @property mode - `merge` (default) or `replace`.
+ */
+export class ImportOptionsDto extends ChangeContextDto {
+  @ApiPropertyOptional({ enum: ['merge', 'replace'], default: 'merge' })
+  @IsOptional()
+  @IsIn(['merge', 'replace'])
+  mode?: ConfigurationImportMode;
+}
@@ -0,0 +1,21 @@
+/**
+ * Mode of a configuration import.
+ * merge - only the variables contained in the document are updated.
+ * replace - global variables missing in the document are reset to their default value,
+ * replica overrides missing in the document are removed.
+ */
+export type ConfigurationImportMode = 'merge' | 'replace';
+
+/**
+ * Result of importing a configuration document.
+ * @property mode - The mode of the import.
+ * @property appliedServices - The names of the services the document was applied to.
+ * @property missingServices - The names of services in the document that are not registered.
+ * @property missingReplicas - The IDs of replicas in the document that do not exist, per service.
+ */
+export interface ConfigurationImportResult {
+  mode: ConfigurationImportMode;
+  appliedServices: string[];
+  missingServices: string[];
+  missingReplicas: Record<string, string[]>;
+}
@@ -0,0 +1,149 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  parseConfigurationDocument,
+  serializeConfigurationDocument,
+} from 'src/configuration/configuration-document';
+import { ConfigurationDocumentFormat } from 'src/configuration/entities/configuration-document.entity';
+import { TransferService } from './transfer.service';
+import { ImportOptionsDto } from './dto/import-options.dto';
+import { ConfigurationImportResult } from './entities/configuration-import-result.entity';
+import { RequiredRole } from 'src/auth/decorators/roles.decorator';
+import { toChangeContext } from 'src/auth/change-context';
+import { Identity } from 'src/auth/decorators/identity.decorator';
+import { AuthIdentity } from 'src/auth/entities/auth-identity.entity';
+import {
+  ApiBadRequestResponse,
+  ApiBody,
+  ApiConsumes,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ErrorResponseDto } from 'src/shared/dto/error-response.dto';
+import { ConfigurationDocumentDto } from 'src/configuration/dto/configuration-document.dto';
+import { VariableValidationErrorResponseDto } from 'src/configuration/dto/variable-validation.dto';
+import { ConfigurationImportResultDto } from './dto/configuration-import-result.dto';
+
+// content types of the supported document formats
+const CONTENT_TYPES: Record<ConfigurationDocumentFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/yaml',
+};
+
+const FORMAT_PIPES = [
+  new DefaultValuePipe('json'),
+  new ParseEnumPipe(['json', 'yaml']),
+];
+
+/**
+ * Controller for exporting and importing the configuration as JSON or YAML documents.
+ */
+@ApiTags('transfer')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ type: ErrorResponseDto })
+@ApiForbiddenResponse({ type: ErrorResponseDto })
+@Controller('transfer')
+export class TransferController {
+  /**
+   * Creates an instance of the TransferController class.
+   * @param transferService The transfer service.
+   */
+  constructor(private readonly transferService: TransferService) {}
+
+  /**
+   * HTTP Endpoint to export the configuration of all services.
+   * @param format - `json` (default) or `yaml`.
+   * @param response - The response, used to set the content type.
+   * @returns The serialized configuration document.
+   */
+  @Get('export')
+  @ApiOperation({ summary: 'Export the configuration of all services' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'yaml'] })
+  @ApiProduces('application/json', 'application/yaml')
+  @ApiOkResponse({ type: ConfigurationDocumentDto })
+  exportConfiguration(
+    @Query('format', ...FORMAT_PIPES) format: ConfigurationDocumentFormat,
+    @Res({ passthrough: true }) response: Response,
+  ): string {
+    response.type(CONTENT_TYPES[format]);
+    return serializeConfigurationDocument(
+      this.transferService.export(),
+      format,
+    );
+  }
+
+  /**
+   * HTTP Endpoint to export the configuration of a service.
+   * @param serviceName - The name of the service.
+   * @param format - `json` (default) or `yaml`.
+   * @param response - The response, used to set the content type.
+   * @returns The serialized configuration document.
+   */
+  @Get('export/:service')
+  @ApiOperation({ summary: 'Export the configuration of a service' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'yaml'] })
+  @ApiProduces('application/json', 'application/yaml')
+  @ApiOkResponse({ type: ConfigurationDocumentDto })
+  @ApiNotFoundResponse({ type: ErrorResponseDto })
+  exportServiceConfiguration(
+    @Param('service') serviceName: string,
+    @Query('format', ...FORMAT_PIPES) format: ConfigurationDocumentFormat,
+    @Res({ passthrough: true }) response: Response,
+  ): string {
+    response.type(CONTENT_TYPES[format]);
+    return serializeConfigurationDocument(
+      this.transferService.export(serviceName),
+      format,
+    );
+  }
+
+  /**
+   * HTTP Endpoint to import a configuration document.
+   * The document is sent as JSON or, with a YAML content type, as YAML.
+   * @param content - The configuration document.
+   * @param options - The import mode and the optional actor and reason.
+   * @param identity - The authenticated client, recorded as actor.
+   * @returns The applied services and the services and replicas that do not exist.
+   */
+  @Post('import')
+  @RequiredRole('admin')
+  @ApiOperation({ summary: 'Import a configuration document' })
+  @ApiConsumes('application/json', 'application/yaml')
+  @ApiBody({ type: ConfigurationDocumentDto })
+  @ApiOkResponse({ type: ConfigurationImportResultDto })
+  @ApiBadRequestResponse({ type: VariableValidationErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async importConfiguration(
+    @Body() content: unknown,
+    @Query() options: ImportOptionsDto,
+    @Identity() identity: AuthIdentity | undefined,
+  ): Promise<ConfigurationImportResult> {
+    const document = await parseConfigurationDocument(content);
+    return this.transferService.import(
+      document,
+      options.mode ?? 'merge',
+      toChangeContext(options, identity),
+    );
+  }
+}
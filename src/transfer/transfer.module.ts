@@ -0,0 +1,14 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigurationModule } from 'src/configuration/configuration.module';
+import { TransferController } from './transfer.controller';
+import { TransferService } from './transfer.service';
+
+/**
+ * Module for exporting and importing configuration documents.
+ */
+@Module({
+  imports: [ConfigurationModule],
+  providers: [TransferService, Logger],
+  controllers: [TransferController],
+})
+export class TransferModule {}
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigurationService } from 'src/configuration/configuration.service';
+import { ConfigurationDocument } from 'src/configuration/entities/configuration-document.entity';
+import { ChangeContext } from 'src/configuration/entities/configuration-revision.entity';
+import {
+  ConfigurationVariable,
+  ServiceConfiguration,
+} from 'src/configuration/entities/service-configuration.entity';
+import { VariableChangeSet } from 'src/configuration/entities/variable-change-set.entity';
+import {
+  ConfigurationImportMode,
+  ConfigurationImportResult,
+} from './entities/configuration-import-result.entity';
+
+/**
+ * Service for exporting the configuration to and importing it from configuration documents.
+ */
+@Injectable()
+export class TransferService {
+  constructor(
+    private readonly configurationService: ConfigurationService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Exports the global variables, replica overrides and variable definitions of services.
+   * @param serviceName - The name of the service to export, all services are exported if not set.
+   * @returns The configuration document.
+   * @throws NotFoundException if the service is not found.
+   */
+  export(serviceName?: string): ConfigurationDocument {
+    const services = serviceName
+      ? [this.configurationService.findService(serviceName)]
+      : this.configurationService.findAllServices();
+    return {
+      exportedAt: new Date().toISOString(),
+      services: services.map((service) => ({
+        name: service.name,
+        globalVariables: structuredClone(service.globalVariables),
+        replicas: service.replicas.map((replica) => ({
+          id: replica.id,
+          variables: structuredClone(replica.replicaVariables),
+        })),
+        variableDefinitions: structuredClone(service.variableDefinitions),
+      })),
+    };
+  }
+
+  /**
+   * Imports a configuration document into the registered services.
+   * Variable definitions are owned by the sidecars and are not imported.
+   * Every variable is validated first, if anything is invalid nothing is applied.
+   * @param document - The configuration document.
+   * @param mode - Whether the document is merged into or replaces the current configuration.
+   * @param context - Optional actor and reason recorded in the change history.
+   * @returns The applied services and the services and replicas that do not exist.
+   * @throws BadRequestException if a variable does not match its definition.
+   */
+  import(
+    document: ConfigurationDocument,
+    mode: ConfigurationImportMode,
+    context: ChangeContext = {},
+  ): ConfigurationImportResult {
+    const knownServices = this.configurationService.findAllServiceNames();
+    const result: ConfigurationImportResult = {
+      mode,
+      appliedServices: [],
+      missingServices: [],
+      missingReplicas: {},
+    };
+    const changeSets: VariableChangeSet[] = [];
+    document.services.forEach((serviceDocument) => {
+      if (!knownServices.includes(serviceDocument.name)) {
+        result.missingServices.push(serviceDocument.name);
+        return;
+      }
+      const service = this.configurationService.findService(
+        serviceDocument.name,
+      );
+      const replicaDocuments = serviceDocument.replicas ?? [];
+      const missingReplicas = replicaDocuments
+        .filter(
+          (replicaDocument) =>
+            !service.replicas.some(({ id }) => id === replicaDocument.id),
+        )
+        .map((replicaDocument) => replicaDocument.id);
+      if (missingReplicas.length > 0) {
+        result.missingReplicas[service.name] = missingReplicas;
+      }
+      const globalVariables = serviceDocument.globalVariables ?? [];
+      changeSets.push({
+        serviceName: service.name,
+        globalVariables:
+          mode === 'replace'
+            ? [
+                ...globalVariables,
+                ...this.missingDefaults(service, globalVariables),
+              ]
+            : globalVariables,
+        replicas: service.replicas.flatMap((replica) => {
+          const variables =
+            replicaDocuments.find(({ id }) => id === replica.id)?.variables ??
+            [];
+          if (mode === 'merge') {
+            return variables.length > 0
+              ? [{ replicaId: replica.id, variables }]
+              : [];
+          }
+          // overrides that are not part of the document are removed
+          const clearedOverrides = replica.replicaVariables
+            .filter(
+              (override) => !variables.some(({ key }) => key === override.key),
+            )
+            .map((override) => override.key);
+          return [{ replicaId: replica.id, variables, clearedOverrides }];
+        }),
+      });
+    });
+    this.configurationService.applyChangeSets(changeSets, {
+      actor: context.actor,
+      reason: context.reason ?? `Import configuration (${mode})`,
+    });
+    result.appliedServices = changeSets.map(
+      (changeSet) => changeSet.serviceName,
+    );
+    this.logger.log(`Imported configuration: ${JSON.stringify(result)}`);
+    return result;
+  }
+
+  /**
+   * Determines the default values of the defined variables that are not part of the given variables.
+   * @param service - The service configuration.
+   * @param variables - The given variables.
+   * @returns The variables with their default value.
+   */
+  private missingDefaults(
+    service: ServiceConfiguration,
+    variables: ConfigurationVariable[],
+  ): ConfigurationVariable[] {
+    return service.variableDefinitions
+      .filter(
+        (definition) => !variables.some(({ key }) => key === definition.key),
+      )
+      .map((definition) => ({
+        key: definition.key,
+        value: structuredClone(definition.defaultValue),
+      }));
+  }
+}